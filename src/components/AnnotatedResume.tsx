@@ -0,0 +1,154 @@
+import { useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { Highlighter } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Annotation, ResumeAnalysis } from '@/lib/scoring';
+
+interface AnnotatedResumeProps {
+  analysis: ResumeAnalysis;
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  annotations: Annotation[];
+}
+
+// Highlight colors for the built-in categories; anything registered later cycles through the palette
+const categoryColors: Record<string, string> = {
+  grammar: 'bg-red-500/20 decoration-red-500',
+  keywords: 'bg-green-500/20 decoration-green-500',
+  readability: 'bg-blue-500/20 decoration-blue-500',
+  structure: 'bg-purple-500/20 decoration-purple-500',
+  contact: 'bg-orange-500/20 decoration-orange-500',
+  impact: 'bg-amber-500/20 decoration-amber-500',
+  quantification: 'bg-cyan-500/20 decoration-cyan-500',
+  ats: 'bg-rose-500/20 decoration-rose-500',
+  evidence: 'bg-lime-500/20 decoration-lime-500',
+  timeline: 'bg-sky-500/20 decoration-sky-500',
+  trust: 'bg-fuchsia-500/20 decoration-fuchsia-500'
+};
+const fallbackColors = [
+  'bg-pink-500/20 decoration-pink-500',
+  'bg-teal-500/20 decoration-teal-500',
+  'bg-yellow-500/30 decoration-yellow-500',
+  'bg-indigo-500/20 decoration-indigo-500'
+];
+
+const buildSegments = (length: number, annotations: Annotation[]): Segment[] => {
+  const clamp = (offset: number) => Math.max(0, Math.min(offset, length));
+  const points = Array.from(
+    new Set([0, length, ...annotations.flatMap(annotation => [clamp(annotation.start), clamp(annotation.end)])])
+  ).sort((a, b) => a - b);
+
+  return points.slice(0, -1).map((start, index) => {
+    const end = points[index + 1];
+    return {
+      start,
+      end,
+      annotations: annotations.filter(annotation => annotation.start < end && annotation.end > start)
+    };
+  });
+};
+
+export const AnnotatedResume = ({ analysis }: AnnotatedResumeProps) => {
+  const text = analysis.resume.raw;
+  const categories = useMemo(
+    () => analysis.breakdown.filter(category =>
+      analysis.annotations.some(annotation => annotation.category === category.id)
+    ),
+    [analysis]
+  );
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+
+  const colorFor = (category: string) =>
+    categoryColors[category]
+      ?? fallbackColors[Math.max(analysis.breakdown.findIndex(entry => entry.id === category), 0) % fallbackColors.length];
+  const labelFor = (category: string) =>
+    analysis.breakdown.find(entry => entry.id === category)?.label ?? category;
+
+  const segments = useMemo(
+    () => buildSegments(
+      text.length,
+      analysis.annotations.filter(annotation => !hidden.has(annotation.category))
+    ),
+    [text, analysis, hidden]
+  );
+
+  const toggleCategory = (category: string) => {
+    setHidden(current => {
+      const next = new Set(current);
+      if (next.has(category)) next.delete(category);
+      else next.add(category);
+      return next;
+    });
+  };
+
+  return (
+    <Card className="p-6 bg-gradient-card border border-border shadow-card">
+      <h3 className="text-lg font-semibold mb-2 flex items-center">
+        <Highlighter className="w-5 h-5 mr-2" />
+        Annotated Resume
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Hover a highlight to see the issue. Click a category to show or hide it.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {categories.map((category) => (
+          <button key={category.id} type="button" onClick={() => toggleCategory(category.id)}>
+            <Badge
+              variant="outline"
+              className={cn(colorFor(category.id), hidden.has(category.id) && 'opacity-40 line-through')}
+            >
+              {category.label}
+            </Badge>
+          </button>
+        ))}
+      </div>
+
+      <div className="whitespace-pre-wrap break-words font-mono text-sm leading-relaxed max-h-[600px] overflow-y-auto rounded-md border border-border bg-background p-4">
+        {segments.map((segment) => {
+          const content = text.slice(segment.start, segment.end);
+          if (segment.annotations.length === 0) {
+            return <span key={segment.start}>{content}</span>;
+          }
+
+          const [primary] = segment.annotations;
+          return (
+            <HoverCard key={segment.start} openDelay={150} closeDelay={50}>
+              <HoverCardTrigger asChild>
+                <mark
+                  className={cn(
+                    'rounded-sm text-foreground cursor-help',
+                    colorFor(primary.category),
+                    primary.severity === 'error' && 'underline decoration-wavy underline-offset-2'
+                  )}
+                >
+                  {content}
+                </mark>
+              </HoverCardTrigger>
+              <HoverCardContent className="w-72 space-y-3">
+                {segment.annotations.map((annotation, index) => (
+                  <div key={index} className="space-y-1">
+                    <div className="text-xs font-semibold uppercase text-muted-foreground">
+                      {labelFor(annotation.category)}
+                    </div>
+                    <p className="text-sm">{annotation.message}</p>
+                    {annotation.suggestion?.trim() && (
+                      <p className="text-sm text-muted-foreground">
+                        Suggestion: <span className="font-medium text-foreground">{annotation.suggestion}</span>
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </HoverCardContent>
+            </HoverCard>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
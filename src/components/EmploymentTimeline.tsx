@@ -0,0 +1,120 @@
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from 'recharts';
+import { AlertCircle, CalendarRange, CheckCircle, XCircle } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { Timeline, TimelineIssueKind } from '@/lib/scoring';
+
+interface EmploymentTimelineProps {
+  timeline: Timeline;
+}
+
+const chartConfig = {
+  experience: { label: 'Experience', color: 'hsl(var(--primary))' },
+  education: { label: 'Education', color: 'hsl(var(--muted-foreground))' }
+} satisfies ChartConfig;
+
+const issueIcons: Record<TimelineIssueKind, { Icon: typeof CheckCircle; color: string }> = {
+  future: { Icon: XCircle, color: 'text-destructive' },
+  overlap: { Icon: AlertCircle, color: 'text-warning' },
+  gap: { Icon: AlertCircle, color: 'text-warning' },
+  order: { Icon: AlertCircle, color: 'text-warning' },
+  undated: { Icon: AlertCircle, color: 'text-muted-foreground' }
+};
+
+const ROW_HEIGHT = 36;
+
+export const EmploymentTimeline = ({ timeline }: EmploymentTimelineProps) => {
+  const flagged = new Set(timeline.issues.flatMap(issue => issue.ranges.map(range => range.start)));
+  const data = timeline.entries.map((entry, index) => ({
+    id: String(index),
+    label: entry.label,
+    dates: entry.dates,
+    kind: entry.kind,
+    flagged: flagged.has(entry.range.start),
+    // Bars span from the first month to the end of the last
+    span: [entry.start, entry.end + 1]
+  }));
+
+  const first = Math.min(...timeline.entries.map(entry => entry.start));
+  const last = Math.max(...timeline.entries.map(entry => entry.end + 1));
+  const firstYear = Math.floor(first / 12);
+  const lastYear = Math.ceil(last / 12);
+  const step = lastYear - firstYear > 12 ? 2 : 1;
+  const ticks = Array.from({ length: Math.floor((lastYear - firstYear) / step) + 1 }, (_, i) => (firstYear + i * step) * 12);
+
+  return (
+    <Card className="p-6 bg-gradient-card border border-border shadow-card">
+      <h3 className="text-lg font-semibold mb-4 flex items-center">
+        <CalendarRange className="w-5 h-5 mr-2" />
+        Timeline
+      </h3>
+
+      {data.length > 0 ? (
+        <ChartContainer
+          config={chartConfig}
+          className="aspect-auto w-full"
+          style={{ height: data.length * ROW_HEIGHT + 40 }}
+        >
+          <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+            <CartesianGrid horizontal={false} />
+            <XAxis
+              type="number"
+              domain={[firstYear * 12, lastYear * 12]}
+              ticks={ticks}
+              tickFormatter={(month: number) => String(Math.floor(month / 12))}
+            />
+            <YAxis
+              type="category"
+              dataKey="id"
+              width={160}
+              tickLine={false}
+              tickFormatter={(id: string) => {
+                const label = data[Number(id)]?.label ?? '';
+                return label.length > 24 ? `${label.slice(0, 23)}…` : label;
+              }}
+            />
+            <ChartTooltip
+              cursor={false}
+              content={
+                <ChartTooltipContent
+                  hideIndicator
+                  labelFormatter={(_, payload) => payload[0]?.payload.label}
+                  formatter={(_, __, item) => item.payload.dates}
+                />
+              }
+            />
+            <Bar dataKey="span" radius={4}>
+              {data.map((entry) => (
+                <Cell
+                  key={entry.id}
+                  fill={entry.flagged ? 'hsl(var(--destructive))' : `var(--color-${entry.kind})`}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ChartContainer>
+      ) : (
+        <p className="text-sm text-muted-foreground">No dated experience or education entries found</p>
+      )}
+
+      {timeline.issues.length > 0 ? (
+        <ul className="space-y-2 mt-4">
+          {timeline.issues.map((issue, index) => {
+            const { Icon, color } = issueIcons[issue.kind];
+            return (
+              <li key={index} className="flex items-start space-x-2">
+                <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${color}`} />
+                <span className="text-sm">{issue.message}</span>
+              </li>
+            );
+          })}
+        </ul>
+      ) : data.length > 0 && (
+        <div className="flex items-center space-x-2 mt-4">
+          <CheckCircle className="w-4 h-4 text-success" />
+          <span className="text-sm">No gaps, overlaps or ordering problems found</span>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,61 @@
+import { useDeferredValue, useMemo, useState } from 'react';
+import { FileCheck, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ResumeOutline } from '@/components/ResumeOutline';
+import { parseResume } from '@/lib/resume';
+
+interface ExtractionReviewProps {
+  filename: string;
+  // The text as it came out of the file
+  extracted: string;
+  onConfirm: (content: string, edited: boolean) => void;
+  onCancel: () => void;
+}
+
+export const ExtractionReview = ({ filename, extracted, onConfirm, onCancel }: ExtractionReviewProps) => {
+  const [content, setContent] = useState(extracted);
+  // Re-parsing on every keystroke would make typing lag on long resumes
+  const deferredContent = useDeferredValue(content);
+  const resume = useMemo(() => parseResume(deferredContent), [deferredContent]);
+  const edited = content !== extracted;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center">
+            <FileCheck className="w-5 h-5 mr-2" />
+            Review extracted text
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Check what we read from "{filename}" and fix any mistakes before it is scored.
+          </p>
+        </div>
+        {edited && <Badge variant="secondary">Edited</Badge>}
+      </div>
+
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        className="min-h-[320px] font-mono text-sm"
+      />
+
+      <ResumeOutline resume={resume} />
+
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button variant="ghost" onClick={() => setContent(extracted)} disabled={!edited}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset
+        </Button>
+        <Button className="flex-1" onClick={() => onConfirm(content, edited)} disabled={!content.trim()}>
+          Analyze Resume
+        </Button>
+      </div>
+    </div>
+  );
+};
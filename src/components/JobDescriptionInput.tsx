@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { Briefcase, FileText, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import { acceptedFileTypes, extractText } from '@/lib/extractors';
+
+interface JobDescriptionInputProps {
+  jobDescription: string;
+  onJobDescription: (content: string) => void;
+}
+
+export const JobDescriptionInput = ({ jobDescription, onJobDescription }: JobDescriptionInputProps) => {
+  const [draft, setDraft] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const { toast } = useToast();
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsProcessing(true);
+    try {
+      const content = await extractText(file);
+      setDraft(content);
+      onJobDescription(content);
+      toast({
+        title: "Success",
+        description: `Job description "${file.name}" loaded successfully!`,
+      });
+    } catch (error) {
+      console.error('Error processing job description:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to process file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (draft.trim()) {
+      onJobDescription(draft);
+    }
+  };
+
+  const clearJobDescription = () => {
+    setDraft('');
+    onJobDescription('');
+  };
+
+  return (
+    <Card className="p-6 bg-gradient-card border border-border shadow-card">
+      <div className="space-y-4">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-bold mb-1 flex items-center">
+              <Briefcase className="w-5 h-5 mr-2" />
+              Job Description
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Optional: paste or upload a posting to score your resume against its requirements
+            </p>
+          </div>
+          {jobDescription && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={clearJobDescription}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+
+        <Textarea
+          placeholder="Paste the job posting here..."
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className="min-h-[140px] resize-none"
+          disabled={isProcessing}
+        />
+
+        <div className="flex gap-2">
+          <input
+            type="file"
+            accept={acceptedFileTypes()}
+            onChange={handleFileSelect}
+            className="hidden"
+            id="job-description-upload"
+            disabled={isProcessing}
+          />
+          <label htmlFor="job-description-upload" className="flex-1">
+            <Button variant="outline" className="w-full cursor-pointer" disabled={isProcessing} asChild>
+              <span>
+                <FileText className="w-4 h-4 mr-2" />
+                {isProcessing ? 'Processing...' : 'Upload Posting'}
+              </span>
+            </Button>
+          </label>
+          <Button
+            onClick={handleSubmit}
+            disabled={!draft.trim() || draft === jobDescription || isProcessing}
+            className="flex-1"
+          >
+            Match Against Posting
+          </Button>
+        </div>
+
+        {jobDescription && (
+          <p className="text-sm text-success">
+            Scoring against the provided job description
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+};
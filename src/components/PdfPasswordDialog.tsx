@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface PdfPasswordDialogProps {
+  open: boolean;
+  filename?: string;
+  // Set when the previous password was wrong
+  incorrect: boolean;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+export const PdfPasswordDialog = ({ open, filename, incorrect, onSubmit, onCancel }: PdfPasswordDialogProps) => {
+  const [password, setPassword] = useState('');
+
+  // Start empty for every new prompt, including a retry after a wrong password
+  useEffect(() => {
+    if (open) setPassword('');
+  }, [open, incorrect]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) onSubmit(password);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Lock className="w-5 h-5 mr-2" />
+              Password-protected PDF
+            </DialogTitle>
+            <DialogDescription>
+              {filename ? `"${filename}"` : 'This PDF'} is encrypted. Enter its password to read it; the password is
+              only used in your browser.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="pdf-password">Password</Label>
+            <Input
+              id="pdf-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+            />
+            {incorrect && (
+              <p className="text-sm text-destructive">That password is incorrect. Try again.</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!password}>
+              Unlock
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
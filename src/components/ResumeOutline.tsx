@@ -0,0 +1,94 @@
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Briefcase, GraduationCap, ListTree } from 'lucide-react';
+import type { ResumeModel, SectionKind } from '@/lib/resume';
+
+interface ResumeOutlineProps {
+  resume: ResumeModel;
+}
+
+const sectionLabels: Record<SectionKind, string> = {
+  contact: 'Contact',
+  summary: 'Summary',
+  experience: 'Experience',
+  education: 'Education',
+  skills: 'Skills',
+  certifications: 'Certifications',
+  projects: 'Projects',
+  other: 'Other'
+};
+
+export const ResumeOutline = ({ resume }: ResumeOutlineProps) => {
+  return (
+    <Card className="p-6 bg-gradient-card border border-border shadow-card">
+      <h3 className="text-lg font-semibold mb-4 flex items-center">
+        <ListTree className="w-5 h-5 mr-2" />
+        Detected Sections
+      </h3>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {resume.sections.map((section) => (
+          <Badge key={section.start} variant="outline">
+            {section.kind === 'other' ? section.heading : sectionLabels[section.kind]}
+          </Badge>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        {resume.experience.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2 font-medium">
+              <Briefcase className="w-4 h-4 text-primary" />
+              <span>Experience</span>
+            </div>
+            <ul className="space-y-1">
+              {resume.experience.map((entry, index) => (
+                <li key={index} className="flex items-center justify-between text-sm">
+                  <span>
+                    {entry.title ?? 'Untitled role'}
+                    {entry.company && <span className="text-muted-foreground"> · {entry.company}</span>}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {entry.dates ?? 'No dates'} · {entry.bullets.length} bullets
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {resume.education.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2 font-medium">
+              <GraduationCap className="w-4 h-4 text-primary" />
+              <span>Education</span>
+            </div>
+            <ul className="space-y-1">
+              {resume.education.map((entry, index) => (
+                <li key={index} className="flex items-center justify-between text-sm">
+                  <span>
+                    {entry.degree ?? entry.institution}
+                    {entry.degree && entry.institution && (
+                      <span className="text-muted-foreground"> · {entry.institution}</span>
+                    )}
+                  </span>
+                  <span className="text-muted-foreground">{entry.dates ?? 'No dates'}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {resume.skills.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {resume.skills.map((skill) => (
+              <Badge key={skill} variant="secondary">
+                {skill}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
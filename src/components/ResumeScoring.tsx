@@ -1,7 +1,9 @@
-import { useEffect, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ResumeOutline } from '@/components/ResumeOutline';
+import { EmploymentTimeline } from '@/components/EmploymentTimeline';
 import { 
   CheckCircle, 
   AlertCircle, 
@@ -9,140 +11,63 @@ import {
   Target, 
   FileText, 
   Zap,
-  TrendingUp
+  TrendingUp,
+  LayoutList,
+  Contact,
+  SpellCheck,
+  Megaphone,
+  Hash,
+  ScanLine,
+  ShieldAlert,
+  ShieldCheck,
+  Grid3x3
 } from 'lucide-react';
+import {
+  defaultRegistry,
+  findProfile,
+  GENERAL_PROFILE,
+  type BulletStrength,
+  type ContactCheck,
+  type ResumeAnalysis,
+  type RequirementMatch,
+  type SectionStatus,
+  type SkillEvidenceStatus
+} from '@/lib/scoring';
+import { READABILITY_TARGETS, type ReadabilityFormula } from '@/lib/readability';
 
-interface ScoreBreakdown {
-  formatting: number;
-  keywords: number;
-  grammar: number;
-  readability: number;
-}
+const sectionStatusStyles: Record<SectionStatus, { Icon: typeof CheckCircle; color: string }> = {
+  ok: { Icon: CheckCircle, color: 'text-success' },
+  misplaced: { Icon: AlertCircle, color: 'text-warning' },
+  empty: { Icon: AlertCircle, color: 'text-warning' },
+  missing: { Icon: XCircle, color: 'text-destructive' }
+};
 
-interface ResumeAnalysis {
-  overall: number;
-  breakdown: ScoreBreakdown;
-  suggestions: string[];
-  matchedKeywords: string[];
-  grammarIssues: string[];
-  readabilityMetrics: {
-    sentences: number;
-    avgWordsPerSentence: number;
-    complexWords: number;
-  };
-}
+const contactStatusStyles: Record<ContactCheck['status'], { Icon: typeof CheckCircle; color: string }> = {
+  pass: { Icon: CheckCircle, color: 'text-success' },
+  fail: { Icon: XCircle, color: 'text-destructive' },
+  missing: { Icon: AlertCircle, color: 'text-muted-foreground' }
+};
+
+const skillEvidenceStyles: Record<SkillEvidenceStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  supported: { label: 'Shown', variant: 'default' },
+  unsupported: { label: 'Unsupported', variant: 'destructive' },
+  unlisted: { label: 'Not listed', variant: 'secondary' }
+};
+
+const bulletStrengthLabels: Record<BulletStrength, string> = {
+  strong: 'Action verb',
+  weak: 'Weak phrase',
+  passive: 'Passive voice',
+  other: 'No action verb'
+};
 
 interface ResumeScoringProps {
-  resumeContent: string;
+  analysis: ResumeAnalysis | null;
+  isAnalyzing: boolean;
   filename?: string;
 }
 
-export const ResumeScoring = ({ resumeContent, filename }: ResumeScoringProps) => {
-  const [analysis, setAnalysis] = useState<ResumeAnalysis | null>(null);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-
-  // Common job keywords for tech/business roles
-  const jobKeywords = [
-    'react', 'javascript', 'typescript', 'python', 'node.js', 'aws', 'docker',
-    'leadership', 'management', 'team', 'project', 'agile', 'scrum',
-    'communication', 'problem-solving', 'analytical', 'strategic',
-    'experience', 'skills', 'education', 'certification', 'achievement',
-    'development', 'design', 'implementation', 'optimization', 'collaboration'
-  ];
-
-  const analyzeResume = (content: string): ResumeAnalysis => {
-    const text = content.toLowerCase();
-    const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    const words = content.split(/\s+/).filter(w => w.length > 0);
-    
-    // Keyword Analysis
-    const matchedKeywords = jobKeywords.filter(keyword => 
-      text.includes(keyword.toLowerCase())
-    );
-    const keywordScore = Math.min((matchedKeywords.length / jobKeywords.length) * 100, 100);
-
-    // Grammar Analysis (basic)
-    const grammarIssues: string[] = [];
-    if (text.includes(' i ')) grammarIssues.push('Use of lowercase "i" instead of "I"');
-    if (!/[.!?]$/.test(content.trim())) grammarIssues.push('Missing punctuation at the end');
-    if (content.includes('  ')) grammarIssues.push('Multiple consecutive spaces found');
-    const grammarScore = Math.max(100 - (grammarIssues.length * 15), 0);
-
-    // Readability Analysis
-    const avgWordsPerSentence = words.length / sentences.length;
-    const complexWords = words.filter(word => word.length > 7).length;
-    const readabilityScore = Math.min(
-      100 - Math.abs(avgWordsPerSentence - 15) * 2 - (complexWords / words.length) * 50,
-      100
-    );
-
-    // Formatting Analysis (basic checks)
-    let formattingScore = 100;
-    if (content.length < 200) formattingScore -= 30;
-    if (content.length > 5000) formattingScore -= 20;
-    if (!content.includes('@')) formattingScore -= 10; // Email check
-    if (!/\b\d{4}\b/.test(content)) formattingScore -= 10; // Year check
-    formattingScore = Math.max(formattingScore, 0);
-
-    const breakdown: ScoreBreakdown = {
-      formatting: Math.round(formattingScore),
-      keywords: Math.round(keywordScore),
-      grammar: Math.round(grammarScore),
-      readability: Math.round(readabilityScore)
-    };
-
-    const overall = Math.round(
-      (breakdown.formatting + breakdown.keywords + breakdown.grammar + breakdown.readability) / 4
-    );
-
-    // Generate suggestions
-    const suggestions: string[] = [];
-    if (breakdown.keywords < 60) {
-      suggestions.push('Include more relevant industry keywords and technical skills');
-    }
-    if (breakdown.grammar < 80) {
-      suggestions.push('Review grammar and punctuation throughout the document');
-    }
-    if (breakdown.readability < 70) {
-      suggestions.push('Simplify sentence structure and reduce complex terminology');
-    }
-    if (breakdown.formatting < 80) {
-      suggestions.push('Ensure proper formatting with consistent structure and contact information');
-    }
-    if (matchedKeywords.length < 5) {
-      suggestions.push('Add more specific technical skills and industry-relevant terms');
-    }
-
-    return {
-      overall,
-      breakdown,
-      suggestions,
-      matchedKeywords,
-      grammarIssues,
-      readabilityMetrics: {
-        sentences: sentences.length,
-        avgWordsPerSentence: Math.round(avgWordsPerSentence * 10) / 10,
-        complexWords
-      }
-    };
-  };
-
-  useEffect(() => {
-    if (resumeContent.trim()) {
-      setIsAnalyzing(true);
-      // Simulate processing delay for better UX
-      const timer = setTimeout(() => {
-        const result = analyzeResume(resumeContent);
-        setAnalysis(result);
-        setIsAnalyzing(false);
-      }, 1500);
-
-      return () => clearTimeout(timer);
-    } else {
-      setAnalysis(null);
-    }
-  }, [resumeContent]);
-
+export const ResumeScoring = ({ analysis, isAnalyzing, filename }: ResumeScoringProps) => {
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'success';
     if (score >= 60) return 'warning';
@@ -155,7 +80,50 @@ export const ResumeScoring = ({ resumeContent, filename }: ResumeScoringProps) =
     return XCircle;
   };
 
-  if (!resumeContent.trim()) {
+  const renderRequirements = (
+    title: string,
+    matches: RequirementMatch[],
+    Icon: typeof CheckCircle,
+    colorClass: string
+  ) => {
+    if (matches.length === 0) return null;
+    const skills = matches.filter(match => match.kind === 'skill');
+    const phrases = matches.filter(match => match.kind === 'requirement');
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <Icon className={`w-4 h-4 ${colorClass}`} />
+          <span className="font-medium">{title}</span>
+          <span className="text-sm text-muted-foreground">({matches.length})</span>
+        </div>
+        {skills.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {skills.map((match) => (
+              <Badge
+                key={match.text}
+                variant="secondary"
+                title={match.matchedTerms.length > 0 ? `Found as: ${match.matchedTerms.join(', ')}` : undefined}
+              >
+                {match.text}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {phrases.length > 0 && (
+          <ul className="space-y-1">
+            {phrases.map((match) => (
+              <li key={match.text} className="text-sm text-muted-foreground">
+                {match.text}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  if (!analysis && !isAnalyzing) {
     return (
       <Card className="p-6 bg-gradient-card border border-border shadow-card">
         <div className="text-center py-12">
@@ -178,7 +146,7 @@ export const ResumeScoring = ({ resumeContent, filename }: ResumeScoringProps) =
           </div>
           <h3 className="text-xl font-semibold mb-2">Analyzing Your Resume</h3>
           <p className="text-muted-foreground mb-4">
-            Evaluating formatting, keywords, grammar, and readability...
+            Evaluating {defaultRegistry.list().map(scorer => scorer.label.toLowerCase()).join(', ')}...
           </p>
           <Progress value={75} className="w-64 mx-auto" />
         </div>
@@ -188,6 +156,8 @@ export const ResumeScoring = ({ resumeContent, filename }: ResumeScoringProps) =
 
   if (!analysis) return null;
 
+  const totalWeight = analysis.breakdown.reduce((sum, category) => sum + category.weight, 0);
+
   return (
     <div className="space-y-6 animate-slide-up">
       {/* Overall Score */}
@@ -202,6 +172,11 @@ export const ResumeScoring = ({ resumeContent, filename }: ResumeScoringProps) =
           <p className="text-muted-foreground">
             {filename && `Analysis for "${filename}"`}
           </p>
+          {analysis.profile !== GENERAL_PROFILE.id && (
+            <p className="text-sm text-muted-foreground">
+              Scored as a {findProfile(analysis.profile).label} resume
+            </p>
+          )}
           <Badge 
             variant={analysis.overall >= 80 ? 'default' : analysis.overall >= 60 ? 'secondary' : 'destructive'}
             className="mt-2"
@@ -218,14 +193,16 @@ export const ResumeScoring = ({ resumeContent, filename }: ResumeScoringProps) =
           Score Breakdown
         </h3>
         <div className="space-y-4">
-          {Object.entries(analysis.breakdown).map(([category, score]) => {
+          {analysis.breakdown.map(({ id, label, weight, score }) => {
             const Icon = getScoreIcon(score);
+            const share = totalWeight > 0 ? Math.round((weight / totalWeight) * 100) : 0;
             return (
-              <div key={category} className="space-y-2">
+              <div key={id} className="space-y-2">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-2">
                     <Icon className={`w-4 h-4 text-${getScoreColor(score)}`} />
-                    <span className="font-medium capitalize">{category}</span>
+                    <span className="font-medium">{label}</span>
+                    <span className="text-xs text-muted-foreground">{share}% of score</span>
                   </div>
                   <span className="font-bold">{score}%</span>
                 </div>
@@ -236,22 +213,213 @@ export const ResumeScoring = ({ resumeContent, filename }: ResumeScoringProps) =
         </div>
       </Card>
 
+      {/* ATS Compatibility */}
+      <Card className="p-6 bg-gradient-card border border-border shadow-card">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold flex items-center">
+            <ScanLine className="w-5 h-5 mr-2" />
+            ATS Compatibility
+          </h3>
+          <Badge variant={analysis.atsReport.risk >= 40 ? 'destructive' : analysis.atsReport.risk > 0 ? 'secondary' : 'default'}>
+            Parse risk {analysis.atsReport.risk}
+          </Badge>
+        </div>
+        {analysis.atsReport.warnings.length > 0 ? (
+          <ul className="space-y-2">
+            {analysis.atsReport.warnings.map((warning, index) => (
+              <li key={index} className="flex items-start space-x-2">
+                <AlertCircle className="w-4 h-4 mt-0.5 text-warning flex-shrink-0" />
+                <span className="text-sm">{warning.message}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="flex items-center space-x-2">
+            <CheckCircle className="w-4 h-4 text-success" />
+            <span className="text-sm">No layout problems found</span>
+          </div>
+        )}
+        {analysis.atsReport.source === 'text' && (
+          <p className="text-xs text-muted-foreground mt-3">
+            Upload a PDF or DOCX to also check columns, headers, images and fonts.
+          </p>
+        )}
+      </Card>
+
+      {/* Trust */}
+      <Card className="p-6 bg-gradient-card border border-border shadow-card">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold flex items-center">
+            {analysis.trustReport.findings.length > 0 ? (
+              <ShieldAlert className="w-5 h-5 mr-2 text-destructive" />
+            ) : (
+              <ShieldCheck className="w-5 h-5 mr-2" />
+            )}
+            Trust
+          </h3>
+          <Badge variant={analysis.trustReport.score < 60 ? 'destructive' : analysis.trustReport.score < 100 ? 'secondary' : 'default'}>
+            Trust {analysis.trustReport.score}
+          </Badge>
+        </div>
+        {analysis.trustReport.findings.length > 0 ? (
+          <>
+            <ul className="space-y-2">
+              {analysis.trustReport.findings.map((finding, index) => (
+                <li key={index} className="flex items-start space-x-2">
+                  <XCircle className="w-4 h-4 mt-0.5 text-destructive flex-shrink-0" />
+                  <span className="text-sm">{finding.message}</span>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-muted-foreground mt-3">
+              Keywords in flagged text are left out of the keyword score.
+            </p>
+          </>
+        ) : (
+          <div className="flex items-center space-x-2">
+            <CheckCircle className="w-4 h-4 text-success" />
+            <span className="text-sm">No hidden text or keyword stuffing found</span>
+          </div>
+        )}
+      </Card>
+
+      {/* Parsed Structure */}
+      <ResumeOutline resume={analysis.resume} />
+
+      {/* Employment Timeline */}
+      <EmploymentTimeline timeline={analysis.timeline} />
+
+      {/* Contact */}
+      <Card className="p-6 bg-gradient-card border border-border shadow-card">
+        <h3 className="text-lg font-semibold mb-4 flex items-center">
+          <Contact className="w-5 h-5 mr-2" />
+          Contact
+        </h3>
+        <ul className="space-y-3">
+          {analysis.contactChecks.map((check) => {
+            const { Icon, color } = contactStatusStyles[check.status];
+            return (
+              <li key={check.field} className="flex items-start space-x-2">
+                <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${color}`} />
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{check.label}</span>
+                    {check.value && (
+                      <span className="text-sm text-muted-foreground truncate">{check.value}</span>
+                    )}
+                  </div>
+                  {check.status !== 'pass' && (
+                    <p className="text-sm text-muted-foreground">{check.message}</p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </Card>
+
+      {/* Section Completeness */}
+      <Card className="p-6 bg-gradient-card border border-border shadow-card">
+        <h3 className="text-lg font-semibold mb-4 flex items-center">
+          <LayoutList className="w-5 h-5 mr-2" />
+          Section Completeness
+        </h3>
+        <ul className="space-y-2">
+          {analysis.sectionFindings.map((finding) => {
+            const { Icon, color } = sectionStatusStyles[finding.status];
+            return (
+              <li key={finding.kind} className="flex items-start space-x-2">
+                <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${color}`} />
+                <div>
+                  <span className="font-medium">{finding.label}</span>
+                  <p className="text-sm text-muted-foreground">{finding.message}</p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </Card>
+
+      {/* Job Match */}
+      {analysis.jobMatch && (
+        <Card className="p-6 bg-gradient-card border border-border shadow-card">
+          <h3 className="text-lg font-semibold mb-4 flex items-center">
+            <Target className="w-5 h-5 mr-2" />
+            Job Description Match
+          </h3>
+          <div className="space-y-4">
+            {renderRequirements('Matched', analysis.jobMatch.matched, CheckCircle, 'text-success')}
+            {renderRequirements('Partially Matched', analysis.jobMatch.partial, AlertCircle, 'text-warning')}
+            {renderRequirements('Missing', analysis.jobMatch.missing, XCircle, 'text-destructive')}
+          </div>
+        </Card>
+      )}
+
       {/* Matched Keywords */}
-      {analysis.matchedKeywords.length > 0 && (
+      {!analysis.jobMatch && analysis.matchedKeywords.length > 0 && (
         <Card className="p-6 bg-gradient-card border border-border shadow-card">
           <h3 className="text-lg font-semibold mb-4">Matched Keywords</h3>
           <div className="flex flex-wrap gap-2">
-            {analysis.matchedKeywords.map((keyword) => (
-              <Badge key={keyword} variant="secondary">
-                {keyword}
-              </Badge>
-            ))}
+            {analysis.matchedKeywords.map((match) => {
+              // Spellings other than the canonical name, e.g. "k8s" for Kubernetes
+              const aliases = match.forms.filter(form => form.toLowerCase() !== match.keyword.toLowerCase());
+              return (
+                <Badge key={match.keyword} variant="secondary" title={match.category}>
+                  {match.keyword}
+                  {aliases.length > 0 && (
+                    <span className="ml-1 font-normal text-muted-foreground">({aliases.join(', ')})</span>
+                  )}
+                </Badge>
+              );
+            })}
           </div>
         </Card>
       )}
 
+      {/* Skills Evidence */}
+      {analysis.skillEvidence.length > 0 && (
+        <Card className="p-6 bg-gradient-card border border-border shadow-card">
+          <h3 className="text-lg font-semibold mb-1 flex items-center">
+            <Grid3x3 className="w-5 h-5 mr-2" />
+            Skills Evidence
+          </h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Where each skill shows up in your experience and projects
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Skill</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Shown in</TableHead>
+                <TableHead className="text-right">Years</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {analysis.skillEvidence.map((entry) => {
+                const sources = Array.from(new Set(entry.uses.map(use => use.source)));
+                return (
+                  <TableRow key={entry.skill}>
+                    <TableCell className="font-medium" title={entry.category}>{entry.skill}</TableCell>
+                    <TableCell>
+                      <Badge variant={skillEvidenceStyles[entry.status].variant}>
+                        {skillEvidenceStyles[entry.status].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground" title={entry.uses.map(use => use.text).join('\n')}>
+                      {sources.length > 0 ? sources.join('; ') : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">{entry.years ?? '—'}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
       {/* Suggestions */}
-      {analysis.suggestions.length > 0 && (
+      {(analysis.suggestions.length > 0 || analysis.quantification.unquantified.length > 0) && (
         <Card className="p-6 bg-gradient-card border border-border shadow-card">
           <h3 className="text-lg font-semibold mb-4 flex items-center">
             <FileText className="w-5 h-5 mr-2" />
@@ -265,6 +433,97 @@ export const ResumeScoring = ({ resumeContent, filename }: ResumeScoringProps) =
               </li>
             ))}
           </ul>
+          {analysis.quantification.unquantified.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-border">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-medium flex items-center">
+                  <Hash className="w-4 h-4 mr-2" />
+                  Bullets to quantify
+                </span>
+                <span className="text-sm text-muted-foreground">
+                  {analysis.quantification.percentage}% of bullets quantified
+                </span>
+              </div>
+              <ul className="space-y-1 max-h-60 overflow-y-auto">
+                {analysis.quantification.unquantified.map((bullet) => (
+                  <li key={bullet.start} className="text-sm text-muted-foreground">
+                    {bullet.text}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </Card>
+      )}
+
+      {/* Impact Language */}
+      {analysis.bulletFindings.length > 0 && (
+        <Card className="p-6 bg-gradient-card border border-border shadow-card">
+          <h3 className="text-lg font-semibold mb-4 flex items-center">
+            <Megaphone className="w-5 h-5 mr-2" />
+            Impact Language
+            <span className="ml-2 text-sm font-normal text-muted-foreground">
+              ({analysis.bulletFindings.filter(finding => finding.strength === 'strong').length} of{' '}
+              {analysis.bulletFindings.length} bullets lead with an action verb)
+            </span>
+          </h3>
+          <ul className="space-y-3 max-h-80 overflow-y-auto">
+            {analysis.bulletFindings
+              .filter(finding => finding.issues.length > 0)
+              .map((finding) => (
+                <li key={finding.start} className="flex items-start space-x-2 text-sm">
+                  <AlertCircle
+                    className={`w-4 h-4 mt-0.5 flex-shrink-0 ${finding.strength === 'strong' ? 'text-muted-foreground' : 'text-warning'}`}
+                  />
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline">{bulletStrengthLabels[finding.strength]}</Badge>
+                      <span className="truncate text-muted-foreground">{finding.text}</span>
+                    </div>
+                    {finding.issues.map((issue) => (
+                      <p key={issue}>{issue}</p>
+                    ))}
+                    {finding.suggestedVerbs.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        <span className="text-muted-foreground">Try:</span>
+                        {finding.suggestedVerbs.map((verb) => (
+                          <Badge key={verb} variant="secondary">{verb}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </li>
+              ))}
+          </ul>
+        </Card>
+      )}
+
+      {/* Grammar & Spelling */}
+      {analysis.grammarIssues.length > 0 && (
+        <Card className="p-6 bg-gradient-card border border-border shadow-card">
+          <h3 className="text-lg font-semibold mb-4 flex items-center">
+            <SpellCheck className="w-5 h-5 mr-2" />
+            Grammar & Spelling
+            <span className="ml-2 text-sm font-normal text-muted-foreground">
+              ({analysis.grammarIssues.length})
+            </span>
+          </h3>
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {analysis.grammarIssues.map((issue) => (
+              <li key={`${issue.rule}-${issue.start}`} className="flex items-start space-x-2 text-sm">
+                <AlertCircle className="w-4 h-4 mt-0.5 text-warning flex-shrink-0" />
+                <div>
+                  <span>{issue.message}</span>
+                  {issue.suggestion && issue.suggestion.trim() && (
+                    <span className="text-muted-foreground">
+                      {' '}→ <span className="font-medium text-foreground">{issue.suggestion}</span>
+                    </span>
+                  )}
+                  <span className="ml-2 text-xs text-muted-foreground">line {issue.line}</span>
+                </div>
+              </li>
+            ))}
+          </ul>
         </Card>
       )}
 
@@ -291,6 +550,25 @@ export const ResumeScoring = ({ resumeContent, filename }: ResumeScoringProps) =
             <div className="text-sm text-muted-foreground">Complex Words</div>
           </div>
         </div>
+        <div className="mt-6 space-y-3">
+          {(Object.keys(READABILITY_TARGETS) as ReadabilityFormula[]).map((formula) => {
+            const { label, min, max, description } = READABILITY_TARGETS[formula];
+            const value = analysis.readabilityMetrics[formula];
+            const inBand = value >= min && value <= max;
+            return (
+              <div key={formula} className="flex items-center justify-between">
+                <div>
+                  <span className="font-medium">{label}</span>
+                  <p className="text-xs text-muted-foreground">{description}</p>
+                </div>
+                <div className="text-right">
+                  <span className={`font-bold ${inBand ? 'text-success' : 'text-warning'}`}>{value}</span>
+                  <p className="text-xs text-muted-foreground">target {min}-{max}</p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
       </Card>
     </div>
   );
@@ -2,19 +2,36 @@ import { useState, useCallback } from 'react';
 import { Upload, FileText, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { ExtractionReview } from '@/components/ExtractionReview';
+import { PdfPasswordDialog } from '@/components/PdfPasswordDialog';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/components/ui/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { acceptedFileTypes, extractDocument, supportedFormatsLabel } from '@/lib/extractors';
+import type { DocumentLayout } from '@/lib/layout';
 
 interface ResumeUploadProps {
-  onResumeContent: (content: string, filename?: string) => void;
+  onResumeContent: (content: string, filename?: string, layout?: DocumentLayout) => void;
 }
 
 export const ResumeUpload = ({ onResumeContent }: ResumeUploadProps) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState('');
   const [pastedText, setPastedText] = useState('');
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  // An extracted file waiting for the user to check its text before it is scored
+  const [review, setReview] = useState<{
+    file: File;
+    filePath: string;
+    extracted: string;
+    layout?: DocumentLayout;
+  } | null>(null);
+  const [passwordRequest, setPasswordRequest] = useState<{
+    filename: string;
+    incorrect: boolean;
+    resolve: (password: string | undefined) => void;
+  } | null>(null);
   const { toast } = useToast();
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -27,7 +44,7 @@ export const ResumeUpload = ({ onResumeContent }: ResumeUploadProps) => {
     setIsDragging(false);
   }, []);
 
-  const uploadToStorage = async (file: File) => {
+  const uploadToStorage = useCallback(async (file: File) => {
     // Create a unique filename with timestamp
     const fileExt = file.name.split('.').pop();
     const fileName = `${Date.now()}_${file.name}`;
@@ -57,61 +74,63 @@ export const ResumeUpload = ({ onResumeContent }: ResumeUploadProps) => {
     }
 
     return filePath;
+  }, []);
+
+  // Opens the password dialog and waits for the user to submit or cancel it
+  const requestPassword = useCallback((filename: string) => (incorrect: boolean) =>
+    new Promise<string | undefined>((resolve) => {
+      setPasswordRequest({ filename, incorrect, resolve });
+    }), []);
+
+  const answerPasswordRequest = (password: string | undefined) => {
+    passwordRequest?.resolve(password);
+    setPasswordRequest(null);
   };
 
-  const processFile = async (file: File) => {
+  const processFile = useCallback(async (file: File) => {
     setIsProcessing(true);
     try {
-      let content = '';
-      
-      if (file.type === 'application/pdf') {
-        // For PDF files
-        const arrayBuffer = await file.arrayBuffer();
-        const { getDocument, GlobalWorkerOptions } = await import('pdfjs-dist');
-        GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js`;
-        
-        const pdf = await getDocument(arrayBuffer).promise;
-        let fullText = '';
-        
-        for (let i = 1; i <= pdf.numPages; i++) {
-          const page = await pdf.getPage(i);
-          const textContent = await page.getTextContent();
-          const pageText = textContent.items
-            .map((item: any) => item.str)
-            .join(' ');
-          fullText += pageText + '\n';
-        }
-        content = fullText;
-      } else if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-        // For DOCX files
-        const arrayBuffer = await file.arrayBuffer();
-        const mammoth = await import('mammoth');
-        const result = await mammoth.extractRawText({ arrayBuffer });
-        content = result.value;
-      } else if (file.type === 'text/plain') {
-        // For TXT files
-        content = await file.text();
-      } else {
-        throw new Error('Unsupported file format. Please use PDF, DOCX, or TXT files.');
+      const { text: content, layout, failedPages = [] } = await extractDocument(file, {
+        onProgress: setProgress,
+        requestPassword: requestPassword(file.name)
+      });
+      if (!content.trim()) {
+        throw new Error('No text could be read from this file. Upload a text-based PDF or DOCX, or paste your resume text.');
       }
 
       // Upload file to storage
       const filePath = await uploadToStorage(file);
 
-      // Update database record with content preview
+      // Keep the text exactly as extracted, before the user reviews it
       await supabase
         .from('resumes')
         .update({ 
+          extracted_content: content,
           content_preview: content.substring(0, 1000) // Store first 1000 chars
         })
         .eq('file_path', filePath);
 
-      setUploadedFile(file);
-      onResumeContent(content, file.name);
-      toast({
-        title: "Success",
-        description: `Resume "${file.name}" uploaded and saved successfully!`,
-      });
+      setReview({ file, filePath, extracted: content, layout });
+      // Only one toast shows at a time, so problems reading the file replace the success message
+      const scanned = layout?.pages.filter(page => page.ocr) ?? [];
+      const problems = [
+        failedPages.length > 0 &&
+          `Page${failedPages.length === 1 ? '' : 's'} ${failedPages.join(', ')} could not be read and ${failedPages.length === 1 ? 'was' : 'were'} skipped.`,
+        scanned.length > 0 &&
+          `Text was recovered with OCR (confidence ${scanned.map(page => `page ${page.number}: ${page.ocr!.confidence}%`).join(', ')}). Most ATS cannot read scanned resumes, so upload a text-based PDF if you have one.`
+      ].filter(Boolean);
+      if (problems.length > 0) {
+        toast({
+          title: scanned.length > 0 ? "Scanned resume" : "Resume partly read",
+          description: problems.join(' '),
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Success",
+          description: `Resume "${file.name}" uploaded. Check the extracted text, then analyze it.`,
+        });
+      }
     } catch (error) {
       console.error('Error processing file:', error);
       toast({
@@ -121,7 +140,30 @@ export const ResumeUpload = ({ onResumeContent }: ResumeUploadProps) => {
       });
     } finally {
       setIsProcessing(false);
+      setProgress('');
     }
+  }, [requestPassword, toast, uploadToStorage]);
+
+  const confirmReview = async (content: string, edited: boolean) => {
+    if (!review) return;
+    const { file, filePath, layout } = review;
+
+    // Record what was scored, and whether it differs from what was extracted
+    const { error } = await supabase
+      .from('resumes')
+      .update({
+        reviewed_content: content,
+        content_edited: edited,
+        content_preview: content.substring(0, 1000)
+      })
+      .eq('file_path', filePath);
+    if (error) {
+      console.error('Error saving reviewed resume text:', error);
+    }
+
+    setReview(null);
+    setUploadedFile(file);
+    onResumeContent(content, file.name, layout);
   };
 
   const handleDrop = useCallback((e: React.DragEvent) => {
@@ -132,7 +174,7 @@ export const ResumeUpload = ({ onResumeContent }: ResumeUploadProps) => {
     if (files.length > 0) {
       processFile(files[0]);
     }
-  }, []);
+  }, [processFile]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -168,71 +210,83 @@ export const ResumeUpload = ({ onResumeContent }: ResumeUploadProps) => {
           </p>
         </div>
 
-        {/* File Upload Area */}
-        <div
-          className={`
-            border-2 border-dashed rounded-lg p-8 text-center transition-smooth
-            ${isDragging ? 'border-primary bg-gradient-hero' : 'border-border hover:border-primary/50'}
-            ${isProcessing ? 'opacity-50 pointer-events-none' : ''}
-          `}
-          onDragOver={handleDragOver}
-          onDragLeave={handleDragLeave}
-          onDrop={handleDrop}
-        >
-          <Upload className="w-12 h-12 mx-auto mb-4 text-primary" />
-          <div className="space-y-2">
-            <p className="text-lg font-medium">
-              {isProcessing ? 'Processing...' : 'Drop your resume here'}
-            </p>
-            <p className="text-sm text-muted-foreground">
-              Supports PDF, DOCX, and TXT files
-            </p>
-            <div className="pt-4">
-              <input
-                type="file"
-                accept=".pdf,.docx,.txt"
-                onChange={handleFileSelect}
-                className="hidden"
-                id="file-upload"
-                disabled={isProcessing}
-              />
-              <label htmlFor="file-upload">
-                <Button variant="default" className="cursor-pointer" disabled={isProcessing}>
-                  <FileText className="w-4 h-4 mr-2" />
-                  {isProcessing ? 'Processing...' : 'Choose File'}
-                </Button>
-              </label>
+        {review ? (
+          <ExtractionReview
+            key={review.filePath}
+            filename={review.file.name}
+            extracted={review.extracted}
+            onConfirm={confirmReview}
+            onCancel={() => setReview(null)}
+          />
+        ) : (
+          <>
+            {/* File Upload Area */}
+            <div
+              className={`
+                border-2 border-dashed rounded-lg p-8 text-center transition-smooth
+                ${isDragging ? 'border-primary bg-gradient-hero' : 'border-border hover:border-primary/50'}
+                ${isProcessing ? 'opacity-50 pointer-events-none' : ''}
+              `}
+              onDragOver={handleDragOver}
+              onDragLeave={handleDragLeave}
+              onDrop={handleDrop}
+            >
+              <Upload className="w-12 h-12 mx-auto mb-4 text-primary" />
+              <div className="space-y-2">
+                <p className="text-lg font-medium">
+                  {isProcessing ? progress || 'Processing...' : 'Drop your resume here'}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Supports {supportedFormatsLabel()} files
+                </p>
+                <div className="pt-4">
+                  <input
+                    type="file"
+                    accept={acceptedFileTypes()}
+                    onChange={handleFileSelect}
+                    className="hidden"
+                    id="file-upload"
+                    disabled={isProcessing}
+                  />
+                  <label htmlFor="file-upload">
+                    <Button variant="default" className="cursor-pointer" disabled={isProcessing}>
+                      <FileText className="w-4 h-4 mr-2" />
+                      {isProcessing ? 'Processing...' : 'Choose File'}
+                    </Button>
+                  </label>
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
 
-        {/* Or Divider */}
-        <div className="relative">
-          <div className="absolute inset-0 flex items-center">
-            <div className="w-full border-t border-border" />
-          </div>
-          <div className="relative flex justify-center text-sm">
-            <span className="px-2 bg-card text-muted-foreground">or</span>
-          </div>
-        </div>
+            {/* Or Divider */}
+            <div className="relative">
+              <div className="absolute inset-0 flex items-center">
+                <div className="w-full border-t border-border" />
+              </div>
+              <div className="relative flex justify-center text-sm">
+                <span className="px-2 bg-card text-muted-foreground">or</span>
+              </div>
+            </div>
 
-        {/* Text Input Area */}
-        <div className="space-y-4">
-          <Textarea
-            placeholder="Paste your resume text here..."
-            value={pastedText}
-            onChange={(e) => setPastedText(e.target.value)}
-            className="min-h-[200px] resize-none"
-            disabled={!!uploadedFile}
-          />
-          <Button
-            onClick={handleTextSubmit}
-            disabled={!pastedText.trim() || !!uploadedFile}
-            className="w-full"
-          >
-            Analyze Pasted Text
-          </Button>
-        </div>
+            {/* Text Input Area */}
+            <div className="space-y-4">
+              <Textarea
+                placeholder="Paste your resume text here..."
+                value={pastedText}
+                onChange={(e) => setPastedText(e.target.value)}
+                className="min-h-[200px] resize-none"
+                disabled={!!uploadedFile}
+              />
+              <Button
+                onClick={handleTextSubmit}
+                disabled={!pastedText.trim() || !!uploadedFile}
+                className="w-full"
+              >
+                Analyze Pasted Text
+              </Button>
+            </div>
+          </>
+        )}
 
         {/* Uploaded File Display */}
         {uploadedFile && (
@@ -257,6 +311,14 @@ export const ResumeUpload = ({ onResumeContent }: ResumeUploadProps) => {
           </div>
         )}
       </div>
+
+      <PdfPasswordDialog
+        open={!!passwordRequest}
+        filename={passwordRequest?.filename}
+        incorrect={passwordRequest?.incorrect ?? false}
+        onSubmit={answerPasswordRequest}
+        onCancel={() => answerPasswordRequest(undefined)}
+      />
     </Card>
   );
 };
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { UserCheck } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ROLE_PROFILES, findProfile, type RoleProfile } from '@/lib/scoring';
+
+interface RoleProfileSelectProps {
+  profile: RoleProfile;
+  onProfile: (profile: RoleProfile) => void;
+}
+
+export const RoleProfileSelect = ({ profile, onProfile }: RoleProfileSelectProps) => (
+  <Card className="p-6 bg-gradient-card border border-border shadow-card">
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-bold mb-1 flex items-center">
+          <UserCheck className="w-5 h-5 mr-2" />
+          Target Role
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Keywords, expected sections and score weights follow the role you pick
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="role-profile">Role</Label>
+        <Select value={profile.id} onValueChange={(id) => onProfile(findProfile(id))}>
+          <SelectTrigger id="role-profile">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ROLE_PROFILES.map((candidate) => (
+              <SelectItem key={candidate.id} value={candidate.id}>
+                {candidate.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Looks for: {profile.keywords.slice(0, 6).join(', ')}
+          {profile.keywords.length > 6 && ` and ${profile.keywords.length - 6} more`}
+        </p>
+      </div>
+    </div>
+  </Card>
+);
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { toast } from '@/components/ui/use-toast';
+import { loadSpellChecker } from '@/lib/grammar';
+import type { DocumentLayout } from '@/lib/layout';
+import { scoreResume, type ResumeAnalysis, type RoleProfile } from '@/lib/scoring';
+
+export function useResumeAnalysis(
+  resumeContent: string,
+  jobDescription = '',
+  layout?: DocumentLayout,
+  profile?: RoleProfile
+) {
+  const [analysis, setAnalysis] = useState<ResumeAnalysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  useEffect(() => {
+    if (!resumeContent.trim()) {
+      setAnalysis(null);
+      setIsAnalyzing(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsAnalyzing(true);
+    // Simulate processing delay for better UX; the dictionary loads in the meantime
+    const delay = new Promise(resolve => setTimeout(resolve, 1500));
+    const spellChecker = loadSpellChecker().catch((error) => {
+      console.error('Error loading spelling dictionary:', error);
+      return undefined;
+    });
+
+    Promise.all([spellChecker, delay]).then(([checker]) => {
+      if (cancelled) return;
+      try {
+        setAnalysis(scoreResume(resumeContent, { jobDescription, layout, profile, spellChecker: checker }));
+      } catch (error) {
+        console.error('Error analyzing resume:', error);
+        setAnalysis(null);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to analyze resume',
+          variant: 'destructive'
+        });
+      } finally {
+        setIsAnalyzing(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [resumeContent, jobDescription, layout, profile]);
+
+  return { analysis, isAnalyzing };
+}
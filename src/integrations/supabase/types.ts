@@ -16,31 +16,40 @@ export type Database = {
     Tables: {
       resumes: {
         Row: {
+          content_edited: boolean
           content_preview: string | null
+          extracted_content: string | null
           file_path: string
           file_size: number
           filename: string
           id: string
+          reviewed_content: string | null
           updated_at: string
           uploaded_at: string
           user_id: string | null
         }
         Insert: {
+          content_edited?: boolean
           content_preview?: string | null
+          extracted_content?: string | null
           file_path: string
           file_size: number
           filename: string
           id?: string
+          reviewed_content?: string | null
           updated_at?: string
           uploaded_at?: string
           user_id?: string | null
         }
         Update: {
+          content_edited?: boolean
           content_preview?: string | null
+          extracted_content?: string | null
           file_path?: string
           file_size?: number
           filename?: string
           id?: string
+          reviewed_content?: string | null
           updated_at?: string
           uploaded_at?: string
           user_id?: string | null
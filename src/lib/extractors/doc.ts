@@ -0,0 +1,130 @@
+import { damagedFileError, encryptedFileError } from './errors';
+import { startsWith } from './sniff';
+import type { DocumentExtractor } from './types';
+
+// Word 97-2003 files are OLE compound files, as are password-protected DOCX files
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+// Offsets into the File Information Block at the start of the WordDocument stream
+const FIB_FLAGS = 0x0a;
+const FIB_ENCRYPTED = 0x0100;
+const FIB_TABLE_STREAM = 0x0200;
+const FIB_CLX = 0x01a2;
+
+// A piece's file offset has this bit set when its text is stored as 8-bit Windows-1252
+const COMPRESSED = 0x40000000;
+
+// Field codes (hyperlinks, page numbers) sit between these marks; only the displayed result is kept
+const FIELD_BEGIN = '\x13';
+const FIELD_SEPARATOR = '\x14';
+const FIELD_END = '\x15';
+
+// The piece table maps the document's characters to where each run of them is stored in the file
+const readPieces = (doc: DataView, table: DataView): { start: number; length: number; compressed: boolean }[] => {
+  let offset = doc.getUint32(FIB_CLX, true);
+  const end = offset + doc.getUint32(FIB_CLX + 4, true);
+
+  // Skip the formatting runs that precede the piece table
+  while (offset < end && table.getUint8(offset) === 0x01) {
+    offset += 3 + table.getUint16(offset + 1, true);
+  }
+  if (table.getUint8(offset) !== 0x02) {
+    throw damagedFileError('DOC');
+  }
+
+  const size = table.getUint32(offset + 1, true);
+  const start = offset + 5;
+  const count = (size - 4) / 12;
+  return Array.from({ length: count }, (_, index) => {
+    const first = table.getUint32(start + index * 4, true);
+    const last = table.getUint32(start + (index + 1) * 4, true);
+    const fc = table.getUint32(start + (count + 1) * 4 + index * 8 + 2, true);
+    const compressed = (fc & COMPRESSED) !== 0;
+    return {
+      start: compressed ? (fc & ~COMPRESSED) / 2 : fc,
+      length: last - first,
+      compressed
+    };
+  });
+};
+
+// Word's marks for table cells, paragraphs, line breaks and page breaks
+const MARKS: Record<string, string> = { '\x07': '\t', '\r': '\n', '\x0b': '\n', '\x0c': '\n' };
+
+// Keeps only what a field displays and turns Word's marks into plain text, dropping other control characters
+const cleanText = (raw: string): string => {
+  let text = '';
+  const fields: boolean[] = [];
+  for (const char of raw) {
+    if (char === FIELD_BEGIN) fields.push(false);
+    else if (char === FIELD_SEPARATOR) fields[fields.length - 1] = true;
+    else if (char === FIELD_END) fields.pop();
+    else if (fields.length > 0 && !fields[fields.length - 1]) continue;
+    else if (char in MARKS) text += MARKS[char];
+    else if (char >= ' ' || char === '\t') text += char;
+  }
+
+  // A row ends with a cell mark followed by the row mark, which would leave a stray tab before the newline
+  return text.split('\t\t').join('\n').replace(/\t\n/g, '\n').trim();
+};
+
+const toView = (data: Uint8Array | number[]) => {
+  const bytes = data instanceof Uint8Array ? data : Uint8Array.from(data);
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+};
+
+export const docExtractor: DocumentExtractor = {
+  format: 'doc',
+  label: 'DOC',
+  extensions: ['.doc'],
+  mimeTypes: ['application/msword'],
+  sniff: bytes => startsWith(bytes, OLE_SIGNATURE),
+  extract: async (file) => {
+    const CFB = await import('cfb');
+    let container: ReturnType<typeof CFB.read>;
+    try {
+      container = CFB.read(new Uint8Array(await file.arrayBuffer()), { type: 'array' });
+    } catch (error) {
+      console.error('Error reading DOC:', error);
+      throw damagedFileError('DOC');
+    }
+
+    if (CFB.find(container, 'EncryptedPackage')) {
+      throw encryptedFileError('Word');
+    }
+    const wordDocument = CFB.find(container, 'WordDocument');
+    if (!wordDocument) {
+      throw new Error('This file is not a Word document.');
+    }
+
+    const doc = toView(wordDocument.content);
+    // A stream too short to hold the flags is truncated, not a different kind of file
+    if (doc.byteLength < FIB_FLAGS + 2) {
+      throw damagedFileError('DOC');
+    }
+    const flags = doc.getUint16(FIB_FLAGS, true);
+    if (flags & FIB_ENCRYPTED) {
+      throw encryptedFileError('DOC');
+    }
+    const table = CFB.find(container, flags & FIB_TABLE_STREAM ? '1Table' : '0Table');
+    if (!table) {
+      throw damagedFileError('DOC');
+    }
+
+    const cp1252 = new TextDecoder('windows-1252');
+    const utf16 = new TextDecoder('utf-16le');
+    try {
+      const raw = readPieces(doc, toView(table.content))
+        .map(({ start, length, compressed }) => {
+          const bytes = new Uint8Array(doc.buffer, doc.byteOffset + start, compressed ? length : length * 2);
+          return (compressed ? cp1252 : utf16).decode(bytes);
+        })
+        .join('');
+      return { text: cleanText(raw) };
+    } catch (error) {
+      // Offsets that point past the end of a stream
+      console.error('Error reading DOC:', error);
+      throw damagedFileError('DOC');
+    }
+  }
+};
@@ -0,0 +1,12 @@
+import { readDocx } from '@/lib/layout';
+import { isZip, zipEntries } from './sniff';
+import type { DocumentExtractor } from './types';
+
+export const docxExtractor: DocumentExtractor = {
+  format: 'docx',
+  label: 'DOCX',
+  extensions: ['.docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  sniff: bytes => isZip(bytes) && zipEntries(bytes).includes('word/document.xml'),
+  extract: async (file) => readDocx(await file.arrayBuffer())
+};
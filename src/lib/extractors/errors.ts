@@ -0,0 +1,13 @@
+// Uploads larger than this are rejected before they are read; a resume is rarely over 1 MB
+export const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+const megabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+
+export const fileTooLargeError = (size: number) =>
+  new Error(`This file is ${megabytes(size)}, over the ${megabytes(MAX_FILE_SIZE)} limit. Upload a smaller file.`);
+
+export const encryptedFileError = (label: string) =>
+  new Error(`This ${label} file is password-protected. Remove the password and upload it again.`);
+
+export const damagedFileError = (label: string) =>
+  new Error(`This ${label} file is damaged and its text could not be read. Save it again or try another format.`);
@@ -0,0 +1,69 @@
+import { readTextFile } from './text';
+import type { DocumentExtractor } from './types';
+
+const SKIPPED = new Set(['script', 'style', 'noscript', 'template', 'head', 'svg', 'button', 'form']);
+// Elements that start on a line of their own
+const BLOCKS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'footer',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section',
+  'table', 'tr', 'ul'
+]);
+
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const lines: string[] = [];
+  let line = '';
+
+  const breakLine = () => {
+    const text = line.replace(/[ ]+/g, ' ').replace(/ ?\t ?/g, '\t').trim();
+    if (text) lines.push(text);
+    line = '';
+  };
+
+  const walk = (node: Node, pre: boolean) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent ?? '';
+      if (!pre) {
+        line += text.replace(/\s+/g, ' ');
+        return;
+      }
+      text.split('\n').forEach((part, index) => {
+        if (index > 0) breakLine();
+        line += part;
+      });
+      return;
+    }
+    if (!(node instanceof Element)) return;
+
+    const tag = node.localName;
+    if (SKIPPED.has(tag)) return;
+    if (tag === 'br') {
+      breakLine();
+      return;
+    }
+    if (tag === 'img') {
+      line += node.getAttribute('alt') ?? '';
+      return;
+    }
+
+    const block = BLOCKS.has(tag);
+    if (block) breakLine();
+    if (tag === 'li') line += '• ';
+    if ((tag === 'td' || tag === 'th') && node.previousElementSibling) line += '\t';
+    node.childNodes.forEach(child => walk(child, pre || tag === 'pre'));
+    if (block) breakLine();
+  };
+
+  walk(doc.body, false);
+  breakLine();
+  return lines.join('\n');
+};
+
+export const htmlExtractor: DocumentExtractor = {
+  format: 'html',
+  label: 'HTML',
+  extensions: ['.html', '.htm'],
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  sniff: bytes => /^\s*(?:<!doctype html|<html)/i.test(new TextDecoder().decode(bytes.subarray(0, 128))),
+  extract: async (file) => ({ text: htmlToText(await readTextFile(file, 'HTML')) })
+};
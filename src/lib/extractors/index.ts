@@ -0,0 +1,35 @@
+import { MAX_FILE_SIZE, fileTooLargeError } from './errors';
+import { defaultExtractorRegistry, detectFormat, supportedFormatsLabel } from './registry';
+import type { ExtractedDocument, ExtractOptions, ExtractorRegistry } from './types';
+
+export {
+  DEFAULT_EXTRACTORS,
+  acceptedFileTypes,
+  createExtractorRegistry,
+  defaultExtractorRegistry,
+  detectFormat,
+  supportedFormatsLabel
+} from './registry';
+export { MAX_FILE_SIZE } from './errors';
+export { htmlToText } from './html';
+export { markdownToText } from './markdown';
+export { rtfToText } from './rtf';
+export type { DocumentExtractor, DocumentFormat, ExtractedDocument, ExtractOptions, ExtractorRegistry } from './types';
+
+// Pulls the text, and for PDF and DOCX the page layout, out of an uploaded resume in any supported format.
+export const extractDocument = async (
+  file: File,
+  { registry = defaultExtractorRegistry, ...options }: ExtractOptions & { registry?: ExtractorRegistry } = {}
+): Promise<ExtractedDocument> => {
+  if (file.size > MAX_FILE_SIZE) {
+    throw fileTooLargeError(file.size);
+  }
+  const extractor = await detectFormat(file, registry);
+  if (!extractor) {
+    throw new Error(`Unsupported file format. Please use ${supportedFormatsLabel(registry)} files.`);
+  }
+  return extractor.extract(file, options);
+};
+
+// Pulls the plain text out of an uploaded file
+export const extractText = async (file: File): Promise<string> => (await extractDocument(file)).text;
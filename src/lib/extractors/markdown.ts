@@ -0,0 +1,62 @@
+import { readTextFile } from './text';
+import type { DocumentExtractor } from './types';
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/;
+// "===" and "---" under a line turn it into a heading; on their own they are a horizontal rule
+const RULE = /^\s{0,3}(?:[-=_*]\s*){3,}$/;
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const LINK_DEFINITION = /^\s{0,3}\[[^\]]+\]:\s+\S+/;
+
+// Markup inside a line: images and links keep their text, emphasis and code keep their content
+const stripInline = (line: string): string =>
+  line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\](?:\([^)]*\)|\[[^\]]*\])/g, '$1')
+    .replace(/<((?:https?:\/\/|mailto:)[^>]+)>/g, '$1')
+    .replace(/<\/?[a-zA-Z][^>]*>/g, '')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+    .replace(/(^|[^\w*])[*_](?=\S)(.+?)(?<=\S)[*_](?![\w*])/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, '$1');
+
+export const markdownToText = (markdown: string): string => {
+  const lines: string[] = [];
+  let inFence = false;
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      lines.push(line);
+      continue;
+    }
+    if (RULE.test(line) || (TABLE_DIVIDER.test(line) && line.includes('-')) || LINK_DEFINITION.test(line)) continue;
+
+    const text = line.replace(/^\s*(?:>\s?)+/, '');
+    const heading = text.match(HEADING);
+    if (heading) {
+      lines.push(stripInline(heading[1]));
+    } else if (LIST_ITEM.test(text)) {
+      lines.push(`• ${stripInline(text.replace(LIST_ITEM, ''))}`);
+    } else if (/^\s*\|.*\|\s*$/.test(text)) {
+      lines.push(text.trim().slice(1, -1).split('|').map(cell => stripInline(cell.trim())).join('\t'));
+    } else {
+      lines.push(stripInline(text.trim()));
+    }
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+export const markdownExtractor: DocumentExtractor = {
+  format: 'markdown',
+  label: 'Markdown',
+  extensions: ['.md', '.markdown'],
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  extract: async (file) => ({ text: markdownToText(await readTextFile(file, 'Markdown')) })
+};
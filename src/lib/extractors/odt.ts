@@ -0,0 +1,65 @@
+import { damagedFileError, encryptedFileError } from './errors';
+import { headText, isZip } from './sniff';
+import type { DocumentExtractor } from './types';
+
+const ODT_MIME_TYPE = 'application/vnd.oasis.opendocument.text';
+
+// Elements whose content is not part of the running text: tracked deletions, footnote bodies, field declarations
+const SKIPPED = new Set(['tracked-changes', 'note-body', 'sequence-decls', 'variable-decls', 'user-field-decls']);
+
+// Text of one paragraph or heading, with ODF's encoded spaces, tabs and line breaks expanded
+const inlineText = (node: Node): string =>
+  Array.from(node.childNodes, child => {
+    if (child.nodeType === Node.TEXT_NODE) return child.textContent ?? '';
+    if (!(child instanceof Element) || SKIPPED.has(child.localName)) return '';
+    if (child.localName === 's') return ' '.repeat(Number(child.getAttribute('text:c') ?? 1));
+    if (child.localName === 'tab') return '\t';
+    if (child.localName === 'line-break') return '\n';
+    return inlineText(child);
+  }).join('');
+
+// One line per paragraph and heading; list items get a bullet, table cells on a row are tab-separated
+const blockLines = (node: Element, bullet = false): string[] => {
+  if (SKIPPED.has(node.localName)) return [];
+  if (node.localName === 'p' || node.localName === 'h') {
+    const text = inlineText(node).trim();
+    return text ? [bullet ? `• ${text}` : text] : [];
+  }
+  if (node.localName === 'list-item') {
+    return Array.from(node.children).flatMap((child, index) => blockLines(child, index === 0 && child.localName !== 'list'));
+  }
+  if (node.localName === 'table-row') {
+    const cells = Array.from(node.children, cell => blockLines(cell).join(' '));
+    return cells.some(Boolean) ? [cells.join('\t')] : [];
+  }
+  return Array.from(node.children).flatMap(child => blockLines(child));
+};
+
+export const odtExtractor: DocumentExtractor = {
+  format: 'odt',
+  label: 'ODT',
+  extensions: ['.odt'],
+  mimeTypes: [ODT_MIME_TYPE],
+  // ODF packages must store their MIME type uncompressed as the first entry of the ZIP archive
+  sniff: bytes => isZip(bytes) && headText(bytes).includes(`mimetype${ODT_MIME_TYPE}`),
+  extract: async (file) => {
+    const { default: JSZip } = await import('jszip');
+    const zip = await JSZip.loadAsync(await file.arrayBuffer()).catch((error) => {
+      console.error('Error reading ODT:', error);
+      throw damagedFileError('ODT');
+    });
+    // Password-protected documents list how each encrypted entry was encrypted in the manifest
+    const manifest = await zip.file('META-INF/manifest.xml')?.async('string');
+    if (manifest?.includes('encryption-data')) {
+      throw encryptedFileError('ODT');
+    }
+    const content = zip.file('content.xml');
+    if (!content) {
+      throw damagedFileError('ODT');
+    }
+
+    const xml = new DOMParser().parseFromString(await content.async('string'), 'application/xml');
+    const body = xml.getElementsByTagName('office:text')[0];
+    return { text: body ? blockLines(body).join('\n') : '' };
+  }
+};
@@ -0,0 +1,13 @@
+import { openPdf, readPdf } from '@/lib/layout';
+import { startsWith } from './sniff';
+import type { DocumentExtractor } from './types';
+
+export const pdfExtractor: DocumentExtractor = {
+  format: 'pdf',
+  label: 'PDF',
+  extensions: ['.pdf'],
+  mimeTypes: ['application/pdf'],
+  sniff: bytes => startsWith(bytes, '%PDF-'),
+  extract: async (file, { onProgress, requestPassword }) =>
+    readPdf(await openPdf(await file.arrayBuffer(), requestPassword), onProgress)
+};
@@ -0,0 +1,71 @@
+import { pdfExtractor } from './pdf';
+import { docxExtractor } from './docx';
+import { docExtractor } from './doc';
+import { odtExtractor } from './odt';
+import { rtfExtractor } from './rtf';
+import { htmlExtractor } from './html';
+import { markdownExtractor } from './markdown';
+import { textExtractor } from './text';
+import { looksLikeText } from './sniff';
+import type { DocumentExtractor, DocumentFormat, ExtractorRegistry } from './types';
+
+export const createExtractorRegistry = (extractors: DocumentExtractor[] = []): ExtractorRegistry => {
+  const entries = new Map<DocumentFormat, DocumentExtractor>();
+
+  const registry: ExtractorRegistry = {
+    // Registering a format that already exists replaces its extractor but keeps its position
+    register: (extractor) => {
+      entries.set(extractor.format, extractor);
+    },
+    unregister: (format) => {
+      entries.delete(format);
+    },
+    get: (format) => entries.get(format),
+    list: () => Array.from(entries.values())
+  };
+
+  extractors.forEach(registry.register);
+  return registry;
+};
+
+// Formats are sniffed in this order, so a more specific signature must come before a looser one
+export const DEFAULT_EXTRACTORS: DocumentExtractor[] = [
+  pdfExtractor,
+  docxExtractor,
+  docExtractor,
+  odtExtractor,
+  rtfExtractor,
+  htmlExtractor,
+  markdownExtractor,
+  textExtractor
+];
+
+export const defaultExtractorRegistry = createExtractorRegistry(DEFAULT_EXTRACTORS);
+
+const extensionOf = (name: string) => name.slice(name.lastIndexOf('.')).toLowerCase();
+
+// Identifies a file by its content first, since browsers often report no or the wrong MIME type and files
+// get renamed, then by its extension and MIME type. Anything else that decodes as text is read as plain text.
+export const detectFormat = async (
+  file: File,
+  registry: ExtractorRegistry = defaultExtractorRegistry
+): Promise<DocumentExtractor | undefined> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const list = registry.list();
+  return (
+    list.find(extractor => extractor.sniff?.(bytes)) ??
+    list.find(extractor => extractor.extensions.includes(extensionOf(file.name))) ??
+    list.find(extractor => extractor.mimeTypes.includes(file.type)) ??
+    (looksLikeText(bytes) ? registry.get('text') : undefined)
+  );
+};
+
+// For the file input's `accept` attribute
+export const acceptedFileTypes = (registry: ExtractorRegistry = defaultExtractorRegistry): string =>
+  registry.list().flatMap(extractor => [...extractor.extensions, ...extractor.mimeTypes]).join(',');
+
+// "PDF, DOCX, ... and TXT"
+export const supportedFormatsLabel = (registry: ExtractorRegistry = defaultExtractorRegistry): string => {
+  const labels = registry.list().map(extractor => extractor.label);
+  return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}` : labels.join('');
+};
@@ -0,0 +1,117 @@
+import { GLYPH_BULLETS } from '@/lib/layout/reading-order';
+import { damagedFileError } from './errors';
+import { startsWith } from './sniff';
+import type { DocumentExtractor } from './types';
+
+// Groups that hold fonts, styles, metadata, pictures or field instructions rather than document text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'listtable', 'listoverridetable',
+  'rsidtbl', 'generator', 'themedata', 'colorschememapping', 'latentstyles', 'datastore', 'xmlnstbl',
+  'fldinst', 'filetbl', 'revtbl', 'pgdsctbl', 'nonshppict', 'bkmkstart', 'bkmkend', 'mmathPr'
+]);
+
+const CONTROL_TEXT: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n',
+  page: '\n',
+  row: '\n',
+  tab: '\t',
+  cell: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”'
+};
+
+const TOKEN = /\\([a-zA-Z]+)(-?\d+)? ?|\\'([0-9a-fA-F]{2})|\\([^a-zA-Z])|([{}])|([\r\n]+)|([^\\{}\r\n]+)/g;
+
+interface Group {
+  skip: boolean;
+  // How many fallback characters follow each \u escape
+  unicodeSkip: number;
+}
+
+export const rtfToText = (rtf: string): string => {
+  let decoder = new TextDecoder('windows-1252');
+  let text = '';
+  let group: Group = { skip: false, unicodeSkip: 1 };
+  const stack: Group[] = [];
+  let groupStart = false;
+  let pendingSkip = 0;
+
+  const emit = (value: string) => {
+    if (!group.skip) text += value;
+  };
+
+  for (const [, word, param, hex, symbol, brace, , literal] of rtf.matchAll(TOKEN)) {
+    const atGroupStart = groupStart;
+    groupStart = false;
+
+    if (brace === '{') {
+      stack.push(group);
+      group = { ...group };
+      groupStart = true;
+      pendingSkip = 0;
+    } else if (brace === '}') {
+      group = stack.pop() ?? group;
+      pendingSkip = 0;
+    } else if (hex) {
+      if (pendingSkip > 0) pendingSkip--;
+      else emit(decoder.decode(Uint8Array.of(parseInt(hex, 16))));
+    } else if (symbol) {
+      if (symbol === '*' && atGroupStart) group.skip = true;
+      else if (symbol === '~') emit(' ');
+      else if (symbol === '_') emit('-');
+      else if (symbol === '\n' || symbol === '\r') emit('\n');
+      else if (symbol === '\\' || symbol === '{' || symbol === '}') emit(symbol);
+    } else if (word) {
+      if (atGroupStart && SKIPPED_DESTINATIONS.has(word)) {
+        group.skip = true;
+      } else if (word === 'ansicpg' && param) {
+        try {
+          decoder = new TextDecoder(`windows-${param}`);
+        } catch {
+          // Keep Windows-1252 for code pages the browser cannot decode
+        }
+      } else if (word === 'uc' && param) {
+        group.unicodeSkip = Number(param);
+      } else if (word === 'u' && param) {
+        const code = Number(param);
+        emit(String.fromCharCode(code < 0 ? code + 0x10000 : code));
+        pendingSkip = group.unicodeSkip;
+      } else if (word in CONTROL_TEXT) {
+        emit(CONTROL_TEXT[word]);
+      }
+    } else if (literal) {
+      // Fallback characters after \u are ASCII stand-ins for the Unicode character already emitted
+      const skipped = Math.min(pendingSkip, literal.length);
+      pendingSkip -= skipped;
+      emit(literal.slice(skipped));
+    }
+  }
+
+  return text
+    // Symbol-font bullets come through as the same private-use code points as in PDF and DOCX
+    .replace(GLYPH_BULLETS, '•')
+    .replace(/[ \t]+\n/g, '\n')
+    .trim();
+};
+
+export const rtfExtractor: DocumentExtractor = {
+  format: 'rtf',
+  label: 'RTF',
+  extensions: ['.rtf'],
+  mimeTypes: ['application/rtf', 'text/rtf'],
+  sniff: bytes => startsWith(bytes, '{\\rtf'),
+  extract: async (file) => {
+    const rtf = await file.text();
+    if (!rtf.startsWith('{\\rtf')) {
+      throw damagedFileError('RTF');
+    }
+    return { text: rtfToText(rtf) };
+  }
+};
@@ -0,0 +1,51 @@
+// True when the file starts with the given magic bytes, or with the ASCII text of a string signature
+export const startsWith = (bytes: Uint8Array, signature: string | number[]): boolean => {
+  const expected = typeof signature === 'string' ? Array.from(signature, char => char.charCodeAt(0)) : signature;
+  return expected.every((byte, index) => bytes[index] === byte);
+};
+
+// The first bytes decoded as Latin-1, for signatures that are text but not at offset 0
+export const headText = (bytes: Uint8Array, length = 128): string => String.fromCharCode(...bytes.subarray(0, length));
+
+export const isZip = (bytes: Uint8Array) => startsWith(bytes, 'PK\x03\x04');
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+// The end-of-directory record is 22 bytes, followed by a comment of up to 64 KB
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT = 0xffff;
+
+// Names of the files in a ZIP archive, read from its central directory; empty when the archive is damaged
+export const zipEntries = (bytes: Uint8Array): string[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const last = bytes.length - END_RECORD_SIZE;
+
+  for (let end = last; end >= Math.max(0, last - MAX_COMMENT); end--) {
+    if (view.getUint32(end, true) !== END_OF_DIRECTORY) continue;
+
+    const names: string[] = [];
+    let offset = view.getUint32(end + 16, true);
+    for (let count = view.getUint16(end + 10, true); count > 0; count--) {
+      if (offset + 46 > bytes.length || view.getUint32(offset, true) !== DIRECTORY_ENTRY) return [];
+      const nameLength = view.getUint16(offset + 28, true);
+      names.push(decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)));
+      offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+    }
+    return names;
+  }
+  return [];
+};
+
+// Text files have no signature; treat a file as text when its start has no NUL bytes and decodes as UTF-8
+export const looksLikeText = (bytes: Uint8Array, length = 4096): boolean => {
+  const head = bytes.subarray(0, length);
+  if (head.includes(0)) return false;
+  try {
+    // A multi-byte character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,20 @@
+import { damagedFileError } from './errors';
+import { looksLikeText } from './sniff';
+import type { DocumentExtractor } from './types';
+
+// Reads a file that should be text, rejecting one that is binary despite its name
+export const readTextFile = async (file: File, label: string): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!looksLikeText(bytes)) {
+    throw damagedFileError(label);
+  }
+  return new TextDecoder().decode(bytes);
+};
+
+export const textExtractor: DocumentExtractor = {
+  format: 'text',
+  label: 'TXT',
+  extensions: ['.txt'],
+  mimeTypes: ['text/plain'],
+  extract: async (file) => ({ text: await readTextFile(file, 'TXT') })
+};
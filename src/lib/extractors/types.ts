@@ -0,0 +1,37 @@
+import type { DocumentLayout, PasswordPrompt } from '@/lib/layout';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'doc' | 'rtf' | 'odt' | 'markdown' | 'html' | 'text';
+
+export interface ExtractedDocument {
+  text: string;
+  // Page geometry, structure and fonts; only available for PDF and DOCX
+  layout?: DocumentLayout;
+  // Pages that could not be read and were left out of the text
+  failedPages?: number[];
+}
+
+export interface ExtractOptions {
+  // Reports slow steps, such as which scanned page OCR is reading
+  onProgress?: (message: string) => void;
+  // Asked for the password of an encrypted PDF; without it, encrypted PDFs are rejected
+  requestPassword?: PasswordPrompt;
+}
+
+export interface DocumentExtractor {
+  format: DocumentFormat;
+  // Shown to users in the list of supported formats
+  label: string;
+  // Lower-case, with the leading dot
+  extensions: string[];
+  mimeTypes: string[];
+  // Recognizes the file from its content, for files that are misnamed or have no MIME type
+  sniff?: (bytes: Uint8Array) => boolean;
+  extract: (file: File, options: ExtractOptions) => Promise<ExtractedDocument>;
+}
+
+export interface ExtractorRegistry {
+  register: (extractor: DocumentExtractor) => void;
+  unregister: (format: DocumentFormat) => void;
+  get: (format: DocumentFormat) => DocumentExtractor | undefined;
+  list: () => DocumentExtractor[];
+}
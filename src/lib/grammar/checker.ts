@@ -0,0 +1,264 @@
+import type { ResumeModel } from '@/lib/resume';
+import { COMMON_MISSPELLINGS, TECH_ALLOWLIST, TECH_NAMES } from './terms';
+import { toBaseForm, toPastTense, verbTense, type VerbTense } from './verbs';
+import type { GrammarIssue, GrammarOptions, SpellChecker, WordToken } from './types';
+
+const TOKEN_PATTERN = /[A-Za-z0-9][A-Za-z0-9'’.+#/-]*[A-Za-z0-9+#]|[A-Za-z0-9]/g;
+const LINK_PATTERN = /\S+@\S+|(?:https?:\/\/|www\.)\S+|\b[\w-]+\.(?:com|net|org|io|dev|me|app|co)\b\S*/gi;
+const PLAIN_WORD = /^[A-Za-z]+(?:['’][A-Za-z]+)?$/;
+const DEFAULT_MAX_SUGGESTIONS = 15;
+
+type Issue = Omit<GrammarIssue, 'line'>;
+
+const tokenize = (text: string): WordToken[] => {
+  const links = Array.from(text.matchAll(LINK_PATTERN), match => [match.index!, match.index! + match[0].length]);
+  const inLink = (start: number) => links.some(([from, to]) => start >= from && start < to);
+
+  return Array.from(text.matchAll(TOKEN_PATTERN))
+    .filter(match => !inLink(match.index!))
+    .map(match => ({
+      text: match[0],
+      lower: match[0].toLowerCase(),
+      start: match.index!,
+      end: match.index! + match[0].length
+    }));
+};
+
+const matchCase = (original: string, replacement: string) =>
+  original[0] === original[0].toUpperCase() && original[0] !== original[0].toLowerCase()
+    ? replacement[0].toUpperCase() + replacement.slice(1)
+    : replacement;
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// "kubernets" -> "Kubernetes"; only for words long enough that one edit is clearly a typo
+const findTechName = (lower: string): string | undefined => {
+  if (lower.length < 5) return undefined;
+  const match = Object.keys(TECH_NAMES).find(name => Math.abs(name.length - lower.length) <= 1 && editDistance(name, lower) === 1);
+  return match && TECH_NAMES[match];
+};
+
+const isSentenceStart = (text: string, offset: number) => {
+  const before = text.slice(0, offset).replace(/[ \t]+$/, '');
+  return before === '' || /[.!?:\n•·▪*-]$/.test(before);
+};
+
+const checkRepeatedWords = (text: string, tokens: WordToken[]): Issue[] =>
+  tokens.flatMap((token, index) => {
+    const previous = tokens[index - 1];
+    if (!previous || token.lower !== previous.lower || !/^[a-z]+$/.test(token.lower)) return [];
+    if (!/^[ \t]+$/.test(text.slice(previous.end, token.start))) return [];
+    return [{
+      rule: 'repeated-word' as const,
+      message: `"${token.text}" is repeated`,
+      start: previous.start,
+      end: token.end,
+      text: text.slice(previous.start, token.end),
+      suggestion: previous.text
+    }];
+  });
+
+const checkLowercaseI = (tokens: WordToken[]): Issue[] =>
+  tokens
+    .filter(token => token.text === 'i')
+    .map(token => ({
+      rule: 'lowercase-i' as const,
+      message: 'Use "I" instead of "i"',
+      start: token.start,
+      end: token.end,
+      text: token.text,
+      suggestion: 'I'
+    }));
+
+const checkSpacing = (text: string): Issue[] =>
+  Array.from(text.matchAll(/(?<=\S)[ ]{2,}(?=\S)/g), match => ({
+    rule: 'spacing' as const,
+    message: 'Multiple consecutive spaces',
+    start: match.index!,
+    end: match.index! + match[0].length,
+    text: match[0],
+    suggestion: ' '
+  }));
+
+const checkTechCapitalization = (text: string, tokens: WordToken[]): Issue[] =>
+  tokens.flatMap(token => {
+    const canonical = TECH_NAMES[token.lower];
+    if (!canonical || token.text === canonical) return [];
+    // All-caps text is usually a heading written in capitals on purpose
+    if (token.text === token.text.toUpperCase() && /[A-Z]{2}/.test(token.text)) return [];
+    return [{
+      rule: 'tech-capitalization' as const,
+      message: `"${canonical}" is the official spelling`,
+      start: token.start,
+      end: token.end,
+      text: token.text,
+      suggestion: canonical
+    }];
+  });
+
+// After these verbs the subject takes a bare infinitive, so "We made it do things" is correct
+const CAUSATIVE = '(?<!\\b(?:make|makes|made|making|let|lets|letting|help|helps|helped|helping|have|has|had|having|watch|watched|see|saw|seen|hear|heard)\\s+)';
+
+const agreementRules: { pattern: RegExp; fixes: Record<string, string> }[] = [
+  { pattern: /\b(I)\s+(is|are|has)\b/gi, fixes: { is: 'am', are: 'am', has: 'have' } },
+  {
+    pattern: new RegExp(`${CAUSATIVE}\\b(he|she|it)\\s+(are|have|were|do|don't)\\b`, 'gi'),
+    fixes: { are: 'is', have: 'has', were: 'was', do: 'does', "don't": "doesn't" }
+  },
+  {
+    pattern: /\b(we|they|you)\s+(is|has|was|does|doesn't)\b/gi,
+    fixes: { is: 'are', has: 'have', was: 'were', does: 'do', "doesn't": "don't" }
+  },
+  {
+    pattern: /\b(there)\s+(is|was|has been)\s+(?=(?:\d+|several|many|multiple|various|numerous|two|three|four|five)\b)/gi,
+    fixes: { is: 'are', was: 'were', 'has been': 'have been' }
+  }
+];
+
+const checkSubjectVerbAgreement = (text: string): Issue[] =>
+  agreementRules.flatMap(({ pattern, fixes }) =>
+    Array.from(text.matchAll(pattern), match => {
+      const verb = match[2];
+      const start = match.index! + match[0].lastIndexOf(verb);
+      const suggestion = matchCase(verb, fixes[verb.toLowerCase()]);
+      // A lowercase "i" is reported by its own rule; the advice spells it properly
+      const subject = match[1] === 'i' ? 'I' : match[1];
+      return {
+        rule: 'subject-verb' as const,
+        message: `"${match[1]} ${verb}" does not agree; use "${subject} ${suggestion}"`,
+        start,
+        end: start + verb.length,
+        text: verb,
+        suggestion
+      };
+    })
+  );
+
+const convertTense = (verb: string, tense: VerbTense) => {
+  const base = toBaseForm(verb) ?? verb.toLowerCase();
+  return matchCase(verb, tense === 'past' ? toPastTense(base) : base);
+};
+
+const checkTenseConsistency = (resume?: ResumeModel): Issue[] => {
+  if (!resume) return [];
+
+  return resume.experience.flatMap(entry => {
+    const leads = entry.bullets
+      .map(bullet => ({ bullet, verb: bullet.text.match(/^[A-Za-z]+/)?.[0] ?? '' }))
+      .map(lead => ({ ...lead, tense: verbTense(lead.verb) }))
+      .filter(lead => lead.tense !== 'unknown');
+
+    const isCurrent = /present|current|now|today/i.test(entry.dates ?? '');
+    const past = leads.filter(lead => lead.tense === 'past').length;
+    const present = leads.length - past;
+    // Finished roles must read in the past tense; otherwise follow the entry's own majority
+    const expected: VerbTense = entry.dates && !isCurrent
+      ? 'past'
+      : past > present ? 'past' : present > past ? 'present' : 'unknown';
+    if (expected === 'unknown') return [];
+
+    return leads
+      .filter(lead => lead.tense !== expected)
+      .map(lead => ({
+        rule: 'tense' as const,
+        message: expected === 'past'
+          ? 'Use the past tense for a role you no longer hold'
+          : 'Keep bullets for the same role in one tense',
+        start: lead.bullet.start,
+        end: lead.bullet.start + lead.verb.length,
+        text: lead.verb,
+        suggestion: convertTense(lead.verb, expected)
+      }));
+  });
+};
+
+const checkSpelling = (
+  text: string,
+  tokens: WordToken[],
+  { resume, spellChecker, maxSpellingSuggestions = DEFAULT_MAX_SUGGESTIONS }: GrammarOptions
+): Issue[] => {
+  // Names and places in the header are not dictionary words
+  const skipped = resume?.contact.lines ?? [];
+  const suggestions = new Map<string, string | undefined>();
+
+  const suggest = (checker: SpellChecker, word: string) => {
+    if (!suggestions.has(word) && suggestions.size < maxSpellingSuggestions) {
+      suggestions.set(word, checker.suggest(word)[0]);
+    }
+    return suggestions.get(word);
+  };
+
+  return tokens.flatMap(token => {
+    if (!PLAIN_WORD.test(token.text) || token.text.length < 3) return [];
+    if (skipped.some(line => token.start >= line.start && token.start < line.end)) return [];
+
+    const known = COMMON_MISSPELLINGS[token.lower];
+    if (known) {
+      return [{
+        rule: 'spelling' as const,
+        message: `"${token.text}" is misspelled`,
+        start: token.start,
+        end: token.end,
+        text: token.text,
+        suggestion: matchCase(token.text, known)
+      }];
+    }
+
+    if (!spellChecker || TECH_ALLOWLIST.has(token.lower)) return [];
+    // Acronyms and camelCase product names are not dictionary words
+    if (token.text === token.text.toUpperCase() || /[a-z][A-Z]/.test(token.text)) return [];
+    if (spellChecker.correct(token.text) || spellChecker.correct(token.lower)) return [];
+    // A capitalized word mid-sentence is most likely a proper noun, unless it is a near miss of a tech name
+    const techName = findTechName(token.lower);
+    if (/^[A-Z]/.test(token.text) && !isSentenceStart(text, token.start) && !techName) return [];
+
+    return [{
+      rule: 'spelling' as const,
+      message: `"${token.text}" may be misspelled`,
+      start: token.start,
+      end: token.end,
+      text: token.text,
+      suggestion: techName ?? suggest(spellChecker, token.text)
+    }];
+  });
+};
+
+const lineNumberAt = (lineStarts: number[], offset: number) => {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low + 1;
+};
+
+export const checkGrammar = (text: string, options: GrammarOptions = {}): GrammarIssue[] => {
+  const tokens = tokenize(text);
+  const lineStarts = [0, ...Array.from(text.matchAll(/\n/g), match => match.index! + 1)];
+
+  const issues: Issue[] = [
+    ...checkSpelling(text, tokens, options),
+    ...checkRepeatedWords(text, tokens),
+    ...checkLowercaseI(tokens),
+    ...checkSubjectVerbAgreement(text),
+    ...checkTenseConsistency(options.resume),
+    ...checkTechCapitalization(text, tokens),
+    ...checkSpacing(text)
+  ];
+
+  return issues
+    .sort((a, b) => a.start - b.start)
+    .map(issue => ({ ...issue, line: lineNumberAt(lineStarts, issue.start) }));
+};
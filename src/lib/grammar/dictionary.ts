@@ -0,0 +1,29 @@
+import type { SpellChecker } from './types';
+import { TECH_ALLOWLIST } from './terms';
+import { ACTION_VERBS, toPastTense } from './verbs';
+
+let spellChecker: Promise<SpellChecker> | undefined;
+
+// Loads the bundled en-US hunspell dictionary on first use. The dictionary is split into its own
+// chunk, so nothing is fetched from a third party and the main bundle stays small.
+export const loadSpellChecker = (): Promise<SpellChecker> => {
+  spellChecker ??= Promise.all([
+    import('nspell'),
+    import('dictionary-en/index.aff?raw'),
+    import('dictionary-en/index.dic?raw')
+  ]).then(([{ default: nspell }, { default: aff }, { default: dic }]) => {
+    const checker = nspell(aff, dic);
+    TECH_ALLOWLIST.forEach(word => checker.add(word));
+    // The verbs the app recommends must not come back as misspellings, e.g. "architected"
+    ACTION_VERBS.forEach(verb => {
+      checker.add(verb);
+      checker.add(toPastTense(verb));
+    });
+    return checker;
+  });
+
+  spellChecker.catch(() => {
+    spellChecker = undefined;
+  });
+  return spellChecker;
+};
@@ -0,0 +1,8 @@
+export { checkGrammar } from './checker';
+export { loadSpellChecker } from './dictionary';
+export { ACTION_VERBS, toBaseForm, toPastTense, verbTense } from './verbs';
+export { FILLER_PHRASES, PASSIVE_VOICE, WEAK_PHRASES } from './phrases';
+export { COMMON_MISSPELLINGS, TECH_ALLOWLIST, TECH_NAMES } from './terms';
+
+export type { GrammarIssue, GrammarOptions, GrammarRule, SpellChecker } from './types';
+export type { VerbTense } from './verbs';
@@ -0,0 +1,40 @@
+// Bullet openers that describe duties instead of results, with stronger verbs (base form) to use instead
+export const WEAK_PHRASES: Record<string, string[]> = {
+  'responsible for': ['lead', 'manage', 'own', 'oversee'],
+  'in charge of': ['lead', 'direct', 'manage'],
+  'tasked with': ['deliver', 'execute', 'drive'],
+  'duties included': ['lead', 'manage', 'deliver'],
+  'helped with': ['support', 'contribute', 'enable'],
+  'helped': ['support', 'contribute', 'enable'],
+  'assisted with': ['support', 'contribute', 'facilitate'],
+  'assisted': ['support', 'contribute', 'facilitate'],
+  'worked on': ['build', 'develop', 'deliver'],
+  'worked with': ['collaborate', 'partner', 'coordinate'],
+  'participated in': ['contribute', 'collaborate', 'execute'],
+  'involved in': ['contribute', 'drive', 'execute'],
+  'was part of': ['collaborate', 'contribute', 'partner'],
+  'handled': ['manage', 'resolve', 'coordinate'],
+  'did': ['complete', 'execute', 'deliver'],
+  'made': ['create', 'build', 'produce'],
+  'tried to': ['pilot', 'test', 'prototype']
+};
+
+// Words that add length without meaning; an empty replacement means "remove it"
+export const FILLER_PHRASES: Record<string, string> = {
+  'in order to': 'to',
+  'a variety of': '',
+  'a number of': 'several',
+  'successfully': '',
+  'various': '',
+  'very': '',
+  'really': '',
+  'etc': ''
+};
+
+const PARTICIPLES = 'built|rebuilt|rewritten|led|made|given|taken|written|done|run|held|sent|kept|taught|won|grown|driven|chosen|brought|shown';
+
+// "was developed", "were rapidly built", "has been migrated"
+export const PASSIVE_VOICE = new RegExp(
+  `\\b(?:was|were|is|are|been|being)\\s+(?:[a-z]+ly\\s+)?([a-z]+ed|${PARTICIPLES})\\b`,
+  'gi'
+);
@@ -0,0 +1,109 @@
+// Canonical spelling of technology names, keyed by lowercase form. Names that are also
+// ordinary English words ("react", "rest", "excel", "spring") are left out on purpose.
+export const TECH_NAMES: Record<string, string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  'node.js': 'Node.js',
+  nodejs: 'Node.js',
+  'next.js': 'Next.js',
+  'vue.js': 'Vue.js',
+  'react.js': 'React.js',
+  reactjs: 'React',
+  angularjs: 'AngularJS',
+  jquery: 'jQuery',
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+  linkedin: 'LinkedIn',
+  postgresql: 'PostgreSQL',
+  postgres: 'Postgres',
+  mysql: 'MySQL',
+  mongodb: 'MongoDB',
+  graphql: 'GraphQL',
+  dynamodb: 'DynamoDB',
+  elasticsearch: 'Elasticsearch',
+  redis: 'Redis',
+  kubernetes: 'Kubernetes',
+  docker: 'Docker',
+  terraform: 'Terraform',
+  jenkins: 'Jenkins',
+  python: 'Python',
+  django: 'Django',
+  numpy: 'NumPy',
+  pytorch: 'PyTorch',
+  tensorflow: 'TensorFlow',
+  kotlin: 'Kotlin',
+  php: 'PHP',
+  html: 'HTML',
+  html5: 'HTML5',
+  css: 'CSS',
+  css3: 'CSS3',
+  sql: 'SQL',
+  nosql: 'NoSQL',
+  aws: 'AWS',
+  gcp: 'GCP',
+  api: 'API',
+  apis: 'APIs',
+  ios: 'iOS',
+  macos: 'macOS',
+  iphone: 'iPhone',
+  android: 'Android',
+  linux: 'Linux',
+  ubuntu: 'Ubuntu',
+  figma: 'Figma',
+  jira: 'Jira',
+  salesforce: 'Salesforce',
+  tableau: 'Tableau',
+  powerpoint: 'PowerPoint',
+  youtube: 'YouTube',
+  json: 'JSON',
+  xml: 'XML',
+  restful: 'RESTful',
+  saas: 'SaaS',
+  devops: 'DevOps',
+  'ci/cd': 'CI/CD',
+  oauth: 'OAuth',
+  wordpress: 'WordPress',
+  hubspot: 'HubSpot'
+};
+
+// Words the dictionary does not know but which are fine in a resume
+export const TECH_ALLOWLIST = new Set([
+  ...Object.keys(TECH_NAMES),
+  'frontend', 'backend', 'fullstack', 'microservice', 'microservices', 'serverless', 'middleware',
+  'kubectl', 'kafka', 'rabbitmq', 'nginx', 'ansible', 'grafana', 'prometheus', 'datadog', 'sentry',
+  'vercel', 'netlify', 'heroku', 'supabase', 'firebase', 'vite', 'eslint', 'prettier', 'jest',
+  'vitest', 'cypress', 'playwright', 'selenium', 'storybook', 'tailwind', 'sass', 'scss', 'redux',
+  'pandas', 'scikit', 'webpack', 'grpc', 'protobuf', 'websocket', 'websockets', 'golang', 'rustlang',
+  'scala', 'haskell', 'elixir', 'erlang', 'clojure', 'matlab', 'sklearn', 'keras', 'jupyter',
+  'airflow', 'dbt', 'snowflake', 'databricks', 'bigquery', 'redshift', 'looker', 'powerbi',
+  'hadoop', 'spark', 'pyspark', 'etl', 'elt', 'mlops', 'llm', 'llms', 'genai', 'chatbot',
+  'ux', 'ui', 'kpi', 'kpis', 'okr', 'okrs', 'roi', 'b2b', 'b2c', 'crm', 'erp', 'sdk', 'sdks',
+  'cli', 'ide', 'url', 'urls', 'uptime', 'onboarding', 'offboarding', 'upskilling', 'roadmap',
+  'roadmaps', 'dashboarding', 'workflow', 'workflows', 'stakeholder', 'stakeholders', 'scalable',
+  'scalability', 'performant', 'containerized', 'containerization', 'virtualization',
+  'refactoring', 'refactored', 'debugging', 'linting', 'deployable', 'reusable', 'async',
+  'runtime', 'codebase', 'codebases', 'repo', 'repos', 'monorepo', 'agile', 'scrum', 'kanban',
+  'confluence', 'slack', 'notion', 'asana', 'trello', 'miro', 'zapier', 'shopify', 'stripe'
+]);
+
+// Frequent misspellings in resumes; checked even when the full dictionary is unavailable
+export const COMMON_MISSPELLINGS: Record<string, string> = {
+  acheive: 'achieve', acheived: 'achieved', acheivement: 'achievement', acheivements: 'achievements',
+  accomodate: 'accommodate', accross: 'across', adress: 'address',
+  begining: 'beginning', beleive: 'believe', buisness: 'business', calender: 'calendar',
+  collegue: 'colleague', collegues: 'colleagues', comittee: 'committee', commited: 'committed',
+  concious: 'conscious', definately: 'definitely', develope: 'develop', developement: 'development',
+  enviroment: 'environment', enviroments: 'environments', excercise: 'exercise',
+  experiance: 'experience', expereince: 'experience', familar: 'familiar', goverment: 'government',
+  guidence: 'guidance', implmented: 'implemented', independant: 'independent',
+  knowlege: 'knowledge', liase: 'liaise', liason: 'liaison', maintainance: 'maintenance',
+  maintenence: 'maintenance', managment: 'management', manger: 'manager', millenium: 'millennium',
+  neccessary: 'necessary', occured: 'occurred', occurence: 'occurrence', oppurtunity: 'opportunity',
+  perfomance: 'performance', persue: 'pursue', posession: 'possession', prefered: 'preferred',
+  proffesional: 'professional', profesional: 'professional', recieve: 'receive', recieved: 'received',
+  recomend: 'recommend', recommed: 'recommend', refered: 'referred', relevent: 'relevant',
+  responsable: 'responsible', resposible: 'responsible', seperate: 'separate', sucessful: 'successful',
+  succesful: 'successful', successfull: 'successful', supercede: 'supersede', supervisior: 'supervisor',
+  techinal: 'technical', tecnical: 'technical', thier: 'their', untill: 'until', wich: 'which'
+};
@@ -0,0 +1,42 @@
+import type { ResumeModel } from '@/lib/resume';
+
+export type GrammarRule =
+  | 'spelling'
+  | 'repeated-word'
+  | 'subject-verb'
+  | 'tense'
+  | 'tech-capitalization'
+  | 'lowercase-i'
+  | 'spacing';
+
+export interface GrammarIssue {
+  rule: GrammarRule;
+  message: string;
+  // Character offsets of the offending text; `end` is exclusive
+  start: number;
+  end: number;
+  // 1-based line number of `start`
+  line: number;
+  text: string;
+  suggestion?: string;
+}
+
+// The subset of a hunspell-style checker the engine needs
+export interface SpellChecker {
+  correct: (word: string) => boolean;
+  suggest: (word: string) => string[];
+}
+
+export interface GrammarOptions {
+  resume?: ResumeModel;
+  spellChecker?: SpellChecker;
+  // Stop asking the spell checker for suggestions after this many misspellings
+  maxSpellingSuggestions?: number;
+}
+
+export interface WordToken {
+  text: string;
+  lower: string;
+  start: number;
+  end: number;
+}
@@ -0,0 +1,67 @@
+// Action verbs commonly used to open resume bullets, in their base form
+export const ACTION_VERBS = [
+  'accelerate', 'achieve', 'administer', 'advise', 'analyze', 'architect', 'arrange', 'assemble',
+  'assess', 'audit', 'author', 'automate', 'build', 'calculate', 'champion', 'coach', 'collaborate',
+  'communicate', 'compile', 'complete', 'conceive', 'conduct', 'configure', 'consolidate',
+  'construct', 'consult', 'contribute', 'control', 'convert', 'coordinate', 'create', 'cut',
+  'debug', 'decrease', 'define', 'deliver', 'demonstrate', 'deploy', 'design', 'detect',
+  'develop', 'devise', 'diagnose', 'direct', 'document', 'double', 'draft', 'drive', 'eliminate',
+  'enable', 'engineer', 'enhance', 'establish', 'evaluate', 'execute', 'expand', 'expedite',
+  'facilitate', 'forecast', 'formulate', 'found', 'generate', 'grow', 'guide', 'halve', 'head',
+  'hire', 'identify', 'implement', 'improve', 'increase', 'influence', 'initiate', 'innovate',
+  'inspect', 'install', 'integrate', 'interview', 'introduce', 'invent', 'investigate', 'launch',
+  'lead', 'maintain', 'manage', 'maximize', 'measure', 'mentor', 'migrate', 'minimize',
+  'model', 'modernize', 'monitor', 'motivate', 'negotiate', 'operate', 'optimize', 'orchestrate',
+  'organize', 'oversee', 'own', 'partner', 'perform', 'pilot', 'pioneer', 'plan', 'present',
+  'prioritize', 'produce', 'program', 'promote', 'propose', 'prototype', 'publish', 'raise',
+  'recommend', 'recruit', 'redesign', 'reduce', 'refactor', 'reorganize', 'replace', 'research',
+  'resolve', 'restructure', 'revamp', 'review', 'revitalize', 'save', 'scale', 'secure', 'serve',
+  'ship', 'simplify', 'solve', 'spearhead', 'standardize', 'streamline', 'strengthen',
+  'supervise', 'support', 'teach', 'test', 'train', 'transform', 'translate', 'triple',
+  'troubleshoot', 'unify', 'upgrade', 'validate', 'win', 'write'
+];
+
+const IRREGULAR_PAST: Record<string, string> = {
+  build: 'built', cut: 'cut', drive: 'drove', found: 'founded', grow: 'grew', lead: 'led',
+  oversee: 'oversaw', teach: 'taught', win: 'won', write: 'wrote', run: 'ran', make: 'made',
+  take: 'took', give: 'gave', begin: 'began', bring: 'brought', buy: 'bought', sell: 'sold',
+  hold: 'held', set: 'set', put: 'put', speak: 'spoke', think: 'thought', get: 'got', do: 'did',
+  have: 'had', be: 'was', see: 'saw', keep: 'kept', send: 'sent', spend: 'spent', rebuild: 'rebuilt',
+  rewrite: 'rewrote', undertake: 'undertook', withdraw: 'withdrew', forecast: 'forecast',
+  debug: 'debugged', program: 'programmed'
+};
+
+const IRREGULAR_BASE: Record<string, string> = Object.fromEntries(
+  Object.entries(IRREGULAR_PAST).map(([base, past]) => [past, base])
+);
+
+// "develop" -> "developed", "plan" -> "planned", "identify" -> "identified"
+export const toPastTense = (verb: string): string => {
+  const base = verb.toLowerCase();
+  if (IRREGULAR_PAST[base]) return IRREGULAR_PAST[base];
+  if (base.endsWith('e')) return `${base}d`;
+  if (/[^aeiou]y$/.test(base)) return `${base.slice(0, -1)}ied`;
+  if (/^[^aeiou]*[aeiou][bdgmnpt]$/.test(base)) return `${base}${base.slice(-1)}ed`;
+  return `${base}ed`;
+};
+
+const VERB_FORMS = new Map<string, string>();
+for (const base of [...ACTION_VERBS, ...Object.keys(IRREGULAR_PAST)]) {
+  VERB_FORMS.set(base, base);
+  VERB_FORMS.set(toPastTense(base), base);
+  VERB_FORMS.set(/(s|sh|ch|x|z)$/.test(base) ? `${base}es` : /[^aeiou]y$/.test(base) ? `${base.slice(0, -1)}ies` : `${base}s`, base);
+}
+
+// Maps any known form ("managed", "manages", "led") back to its base form
+export const toBaseForm = (word: string): string | undefined =>
+  VERB_FORMS.get(word.toLowerCase()) ?? IRREGULAR_BASE[word.toLowerCase()];
+
+export type VerbTense = 'past' | 'present' | 'unknown';
+
+export const verbTense = (word: string): VerbTense => {
+  const lower = word.toLowerCase();
+  const base = toBaseForm(lower);
+  if (!base) return lower.length > 3 && lower.endsWith('ed') ? 'past' : 'unknown';
+  if (lower === toPastTense(base)) return lower === base ? 'unknown' : 'past';
+  return 'present';
+};
@@ -0,0 +1,197 @@
+import { findGutter, groupLines, median } from './geometry';
+import { GLYPH_BULLETS } from './reading-order';
+import type { AtsWarning, BlockKind, DocumentLayout, LayoutItem, PageLayout } from './types';
+
+// Fonts every parser and every recruiter's machine can be trusted to have
+const SAFE_FONTS = [
+  'arial', 'helvetica', 'calibri', 'cambria', 'candara', 'garamond', 'georgia', 'times', 'verdana',
+  'tahoma', 'trebuchet', 'segoe', 'lato', 'roboto', 'opensans', 'sourcesans', 'notosans', 'noto',
+  'inter', 'carlito', 'caladea', 'liberation', 'dejavu', 'bookantiqua', 'palatino', 'constantia',
+  'corbel', 'aptos', 'lmroman', 'cmr', 'cmbx', 'cmti', 'sfrm', 'courier', 'consolas'
+];
+const ICON_FONTS = /fontawesome|wingdings|webdings|symbol|dingbat|materialicons|glyphicons|icomoon/i;
+const UNREADABLE = /[\uE000-\uF8FF\uFFFD]/;
+const CONTACT_PATTERN = /@|\+?\d[\d\s().-]{7,}\d|linkedin\.com|github\.com/i;
+
+// Share of the page height that may hold a header or footer
+const MARGIN_BAND = 0.08;
+const PAGE_NUMBER = /^(?:page\s*)?\d+(?:\s*(?:of|\/)\s*\d+)?$/i;
+// A page with less text than this next to an image is probably a scan
+const SCANNED_TEXT_LENGTH = 200;
+
+const normalizeFont = (font: string) => font.toLowerCase().replace(/[^a-z]/g, '');
+const isSafeFont = (font: string) => SAFE_FONTS.some(safe => normalizeFont(font).startsWith(safe));
+
+// Symbol and Wingdings bullets are private-use glyphs too, but every parser knows them
+const withoutBullets = (text: string) => text.replace(GLYPH_BULLETS, '');
+
+const pageText = (items: LayoutItem[]) => items.map(item => item.text).join(' ').replace(/\s+/g, ' ').trim();
+
+const blockLines = (page: PageLayout, kind?: BlockKind) =>
+  page.blocks.filter(block => !kind || block.kind === kind).flatMap(block => block.lines.map(line => line.text));
+
+// Splits a line wherever the horizontal gap is wider than a few characters
+const lineCells = (line: LayoutItem[], page: PageLayout) => {
+  const cells: { x: number; end: number }[] = [];
+  for (const item of line) {
+    const last = cells[cells.length - 1];
+    const gap = Math.max(item.height * 2, page.width * 0.03);
+    if (last && item.x - last.end < gap) last.end = Math.max(last.end, item.x + item.width);
+    else cells.push({ x: item.x, end: item.x + item.width });
+  }
+  return cells;
+};
+
+const hasTable = (page: PageLayout) => {
+  const rows = groupLines(page.items).map(line => lineCells(line, page)).filter(cells => cells.length >= 3);
+  const tolerance = page.width * 0.01;
+  // Three rows whose cells start at the same positions read as a grid
+  return rows.some((row, index) => {
+    const aligned = rows.filter((other, otherIndex) =>
+      otherIndex !== index
+      && other.length === row.length
+      && other.every((cell, cellIndex) => Math.abs(cell.x - row[cellIndex].x) <= tolerance)
+    );
+    return aligned.length >= 2;
+  });
+};
+
+// Runs near the top or bottom edge that sit apart from the body text, as page headers and footers do.
+// Oversized runs are left out: a large name or title at the top of the page is not a header.
+const marginBands = (page: PageLayout) => {
+  const top = (item: LayoutItem) => item.y + item.height;
+  const lineHeight = median(page.items.map(item => item.height)) || 1;
+  const header = page.items.filter(item => top(item) > page.height * (1 - MARGIN_BAND));
+  const footer = page.items.filter(item => item.y < page.height * MARGIN_BAND);
+  const body = page.items.filter(item => !header.includes(item) && !footer.includes(item));
+  if (body.length === 0) return { header: [], footer: [] };
+
+  const headerGap = Math.min(...header.map(item => item.y)) - Math.max(...body.map(top));
+  const footerGap = Math.min(...body.map(item => item.y)) - Math.max(...footer.map(top));
+  const regular = (item: LayoutItem) => item.height <= lineHeight * 1.3;
+
+  return {
+    header: headerGap >= lineHeight * 1.5 ? header.filter(regular) : [],
+    footer: footerGap >= lineHeight * 1.5
+      ? footer.filter(item => regular(item) && !PAGE_NUMBER.test(item.text.trim()))
+      : []
+  };
+};
+
+// Header and footer text, measured from the page edges for PDFs and as the document declares it for DOCX
+const marginText = (page: PageLayout) => {
+  const measured = marginBands(page);
+  const declared = (kind: BlockKind) => blockLines(page, kind).filter(line => !PAGE_NUMBER.test(line)).join(' ');
+  return {
+    header: [pageText(measured.header), declared('header')].filter(Boolean).join(' '),
+    footer: [pageText(measured.footer), declared('footer')].filter(Boolean).join(' ')
+  };
+};
+
+const marginWarnings = (page: PageLayout): AtsWarning[] =>
+  Object.entries(marginText(page))
+    .filter(([, text]) => text.length > 0)
+    .map(([band, text]) => CONTACT_PATTERN.test(text)
+      ? {
+        risk: 'contact-in-header' as const,
+        page: page.number,
+        text,
+        message: `Contact details are inside the page ${band}; many ATS skip headers and footers`
+      }
+      : {
+        risk: 'header-footer' as const,
+        page: page.number,
+        text,
+        message: `Text in the page ${band} ("${text.slice(0, 40)}") may be skipped by an ATS`
+      });
+
+export const analyzeLayout = (layout: DocumentLayout): AtsWarning[] => {
+  const warnings: AtsWarning[] = [];
+
+  for (const page of layout.pages) {
+    const lines = blockLines(page);
+    const text = lines.join(' ').replace(/\s+/g, ' ').trim();
+
+    if (page.ocr) {
+      warnings.push({
+        risk: 'scanned-page',
+        page: page.number,
+        message: `Page ${page.number} is a scanned image; its text was recovered by OCR with ${page.ocr.confidence}% confidence, but most ATS will not read it`
+      });
+      continue;
+    }
+    if (page.images > 0 && text.length < SCANNED_TEXT_LENGTH) {
+      warnings.push({
+        risk: 'scanned-page',
+        page: page.number,
+        message: `Page ${page.number} looks like a scanned image; an ATS cannot read text inside images`
+      });
+      continue;
+    }
+    if (page.images > 0) {
+      warnings.push({
+        risk: 'image-text',
+        page: page.number,
+        message: `Page ${page.number} contains ${page.images === 1 ? 'an image' : `${page.images} images`}; any text inside ${page.images === 1 ? 'it' : 'them'} is invisible to an ATS`
+      });
+    }
+    if ((page.columns ?? 1) > 1 || findGutter(page) !== undefined) {
+      warnings.push({
+        risk: 'multi-column',
+        page: page.number,
+        message: `Page ${page.number} uses a multi-column layout; an ATS may read across the columns and mix up sections`
+      });
+    }
+    if (page.blocks.some(block => block.kind === 'table') || hasTable(page)) {
+      warnings.push({
+        risk: 'table',
+        page: page.number,
+        message: `Page ${page.number} lays text out in a table; an ATS may merge or drop cells`
+      });
+    }
+    const textBox = page.blocks.find(block => block.kind === 'text-box');
+    if (textBox) {
+      const boxText = textBox.lines.map(line => line.text).join(' ');
+      warnings.push({
+        risk: 'text-box',
+        page: page.number,
+        text: boxText,
+        message: `Page ${page.number} has text inside a text box ("${boxText.slice(0, 40)}"); many ATS skip text boxes`
+      });
+    }
+    warnings.push(...marginWarnings(page));
+    // DOCX has no positioned runs, so its lines are checked instead
+    const runs = page.items.length > 0 ? page.items.map(item => item.text) : lines;
+    const unreadable = runs.filter(run => UNREADABLE.test(withoutBullets(run)));
+    if (unreadable.length > 0) {
+      warnings.push({
+        risk: 'unreadable-text',
+        page: page.number,
+        message: `Page ${page.number} has ${unreadable.length} text run${unreadable.length === 1 ? '' : 's'} that cannot be decoded, such as icons or symbol glyphs`
+      });
+    }
+  }
+
+  const familyOf = (font: string) => font.split(/[-,]/)[0];
+  const families = new Set(
+    layout.pages
+      .flatMap(page => [...page.items.map(item => item.font), ...(page.fonts ?? [])])
+      .map(familyOf)
+      .filter(Boolean)
+  );
+  // A symbol font that only draws list bullets does no harm
+  const drawsOnlyBullets = (family: string) => {
+    const runs = layout.pages.flatMap(page => page.items).filter(item => familyOf(item.font) === family);
+    return runs.length > 0 && runs.every(item => !withoutBullets(item.text).replace(/[•·▪◦●‣\s]/g, ''));
+  };
+  families.forEach(family => {
+    if (ICON_FONTS.test(family)) {
+      if (drawsOnlyBullets(family)) return;
+      warnings.push({ risk: 'font', message: `The icon font "${family}" reads as gibberish to an ATS; use plain text labels instead` });
+    } else if (!isSafeFont(family)) {
+      warnings.push({ risk: 'font', message: `The font "${family}" is uncommon; a standard font such as Arial or Calibri parses more reliably` });
+    }
+  });
+
+  return warnings;
+};
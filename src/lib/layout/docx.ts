@@ -0,0 +1,426 @@
+import { blocksToText, GLYPH_BULLETS } from './reading-order';
+import type { BlockKind, DocumentLayout, PageLayout, TextBlock, TextLine } from './types';
+
+// DOCX measures in twentieths of a point and font sizes in half points
+const TWIPS_PER_POINT = 20;
+const DEFAULT_FONT_SIZE = 11;
+const LINE_SPACING = 1.2;
+// Average glyph width as a share of the font size, to estimate where a paragraph wraps
+const CHARACTER_WIDTH = 0.5;
+// US Letter with one-inch margins, for documents that leave the page setup out
+const DEFAULT_PAGE = { width: 612, height: 792, top: 72, right: 72, bottom: 72, left: 72, header: 36, footer: 36 };
+
+const DAMAGED = 'This DOCX file is damaged and its text could not be read. Save it again or try another format.';
+
+interface Style {
+  basedOn?: string;
+  headingLevel?: number;
+  listLevel?: number;
+  font?: string;
+  size?: number;
+}
+
+interface Paragraph {
+  kind: BlockKind;
+  text: string;
+  level?: number;
+  indent: number;
+  size: number;
+  fonts: string[];
+  pageBreak: boolean;
+  section: number;
+  cell?: { row: number; column: number; columns: number };
+  // Identifies the table or text box the paragraph belongs to, so its paragraphs group into one block
+  group?: number;
+}
+
+interface PageSetup {
+  width: number;
+  height: number;
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+  // Distance of the page header and footer from the page edge
+  header: number;
+  footer: number;
+}
+
+const children = (node: Element, name?: string) =>
+  Array.from(node.children).filter(child => !name || child.localName === name);
+const child = (node: Element | undefined, name: string) => (node ? children(node, name)[0] : undefined);
+const attribute = (node: Element | undefined, name: string) => node?.getAttribute(`w:${name}`) ?? undefined;
+const numberAttribute = (node: Element | undefined, name: string) => {
+  const value = attribute(node, name);
+  return value === undefined || Number.isNaN(Number(value)) ? undefined : Number(value);
+};
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml').documentElement;
+
+// Theme fonts are referenced as "minorHAnsi" or "majorHAnsi"; the theme names the actual typefaces
+const readThemeFonts = (theme: Element | undefined): Record<string, string> => {
+  if (!theme) return {};
+  const typeface = (group: string) =>
+    theme.getElementsByTagName(`a:${group}`)[0]?.getElementsByTagName('a:latin')[0]?.getAttribute('typeface') ?? '';
+  return { major: typeface('majorFont'), minor: typeface('minorFont') };
+};
+
+const runFont = (rPr: Element | undefined, themeFonts: Record<string, string>) => {
+  const fonts = child(rPr, 'rFonts');
+  const theme = attribute(fonts, 'asciiTheme');
+  return attribute(fonts, 'ascii') ?? attribute(fonts, 'hAnsi') ?? (theme ? themeFonts[theme.startsWith('major') ? 'major' : 'minor'] : undefined);
+};
+
+const runSize = (rPr: Element | undefined) => {
+  const halfPoints = numberAttribute(child(rPr, 'sz'), 'val');
+  return halfPoints ? halfPoints / 2 : undefined;
+};
+
+// Heading levels, list levels, fonts and sizes by style id, resolved through each style's parents
+const readStyles = (styles: Element | undefined, themeFonts: Record<string, string>) => {
+  const entries = new Map<string, Style>();
+  const defaults = child(child(child(styles, 'docDefaults'), 'rPrDefault'), 'rPr');
+  const defaultStyle: Style = { font: runFont(defaults, themeFonts), size: runSize(defaults) };
+
+  for (const style of styles ? children(styles, 'style') : []) {
+    const id = attribute(style, 'styleId');
+    if (!id) continue;
+    const name = attribute(child(style, 'name'), 'val')?.toLowerCase() ?? '';
+    const pPr = child(style, 'pPr');
+    const rPr = child(style, 'rPr');
+    const outline = numberAttribute(child(pPr, 'outlineLvl'), 'val');
+    const heading = name.match(/^heading (\d)$/);
+    const numPr = child(pPr, 'numPr');
+    entries.set(id, {
+      basedOn: attribute(child(style, 'basedOn'), 'val'),
+      headingLevel: name === 'title' ? 1 : heading ? Number(heading[1]) : outline !== undefined && outline < 9 ? outline + 1 : undefined,
+      listLevel: numPr && attribute(child(numPr, 'numId'), 'val') !== '0' ? numberAttribute(child(numPr, 'ilvl'), 'val') ?? 0 : undefined,
+      font: runFont(rPr, themeFonts),
+      size: runSize(rPr)
+    });
+  }
+
+  const resolve = (id: string | undefined, seen = new Set<string>()): Style => {
+    const style = id ? entries.get(id) : undefined;
+    if (!style || seen.has(id!)) return defaultStyle;
+    seen.add(id!);
+    const parent = resolve(style.basedOn, seen);
+    return {
+      headingLevel: style.headingLevel ?? parent.headingLevel,
+      listLevel: style.listLevel ?? parent.listLevel,
+      font: style.font ?? parent.font,
+      size: style.size ?? parent.size
+    };
+  };
+  return resolve;
+};
+
+const readPageSetup = (sectPr: Element | undefined): PageSetup => {
+  const size = child(sectPr, 'pgSz');
+  const margins = child(sectPr, 'pgMar');
+  const points = (node: Element | undefined, name: string, fallback: number) => {
+    const twips = numberAttribute(node, name);
+    return twips === undefined ? fallback : twips / TWIPS_PER_POINT;
+  };
+  return {
+    width: points(size, 'w', DEFAULT_PAGE.width),
+    height: points(size, 'h', DEFAULT_PAGE.height),
+    top: Math.abs(points(margins, 'top', DEFAULT_PAGE.top)),
+    right: points(margins, 'right', DEFAULT_PAGE.right),
+    bottom: Math.abs(points(margins, 'bottom', DEFAULT_PAGE.bottom)),
+    left: points(margins, 'left', DEFAULT_PAGE.left),
+    header: points(margins, 'header', DEFAULT_PAGE.header),
+    footer: points(margins, 'footer', DEFAULT_PAGE.footer)
+  };
+};
+
+// Walks the body of a document, header or footer into paragraphs in document order. Text boxes and
+// tables come out as their own kinds of paragraph, since many ATS skip or scramble both.
+const createWalker = (resolveStyle: ReturnType<typeof readStyles>, themeFonts: Record<string, string>) => {
+  const paragraphs: Paragraph[] = [];
+  const sections: number[] = [1];
+  let images = 0;
+  let groups = 0;
+  let pageBreak = false;
+
+  const walkParagraph = (p: Element, kind: BlockKind, extra: Partial<Paragraph> = {}) => {
+    const pPr = child(p, 'pPr');
+    const style = resolveStyle(attribute(child(pPr, 'pStyle'), 'val'));
+    const numPr = child(pPr, 'numPr');
+    const listLevel = numPr
+      ? attribute(child(numPr, 'numId'), 'val') === '0' ? undefined : numberAttribute(child(numPr, 'ilvl'), 'val') ?? 0
+      : style.listLevel;
+    const fonts = new Set<string>();
+    const sizes: number[] = [];
+    const textBoxes: Element[] = [];
+    let text = '';
+    if (child(pPr, 'pageBreakBefore')) pageBreak = true;
+
+    const walkRuns = (node: Element) => {
+      for (const element of children(node)) {
+        switch (element.localName) {
+          case 'r': {
+            const rPr = child(element, 'rPr');
+            const font = runFont(rPr, themeFonts) ?? style.font;
+            if (font) fonts.add(font);
+            sizes.push(runSize(rPr) ?? style.size ?? DEFAULT_FONT_SIZE);
+            walkRuns(element);
+            break;
+          }
+          case 't':
+            text += element.textContent ?? '';
+            break;
+          case 'tab':
+            text += '\t';
+            break;
+          case 'noBreakHyphen':
+            text += '-';
+            break;
+          case 'br':
+          case 'cr':
+            if (attribute(element, 'type') === 'page') pageBreak = true;
+            else text += '\n';
+            break;
+          case 'lastRenderedPageBreak':
+            if (!text.trim()) pageBreak = true;
+            break;
+          case 'sym': {
+            const symbol = attribute(element, 'font');
+            const glyph = String.fromCharCode(parseInt(attribute(element, 'char') ?? '', 16) || 0);
+            // A bullet glyph reads as '•', so only other symbols count towards the symbol font
+            if (glyph.replace(GLYPH_BULLETS, '') === '') text += '•';
+            else if (symbol) fonts.add(symbol);
+            break;
+          }
+          case 'txbxContent':
+            textBoxes.push(element);
+            break;
+          case 'blip':
+          case 'imagedata':
+            images++;
+            break;
+          // Word follows a DrawingML shape with a VML copy for older readers, so only the first is read.
+          // Formatting, field codes and deleted text are not part of the text.
+          case 'Fallback':
+          case 'pPr':
+          case 'rPr':
+          case 'instrText':
+          case 'delText':
+            break;
+          default:
+            walkRuns(element);
+        }
+      }
+    };
+    walkRuns(p);
+
+    const heading = style.headingLevel;
+    const size = sizes.length > 0 ? Math.max(...sizes) : style.size ?? DEFAULT_FONT_SIZE;
+    const indent = (numberAttribute(child(pPr, 'ind'), 'left') ?? numberAttribute(child(pPr, 'ind'), 'start') ?? 0) / TWIPS_PER_POINT;
+    const paragraphKind = kind !== 'paragraph' ? kind : heading ? 'heading' : listLevel !== undefined ? 'list' : 'paragraph';
+    text.split('\n').map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean).forEach(line => {
+      paragraphs.push({
+        kind: paragraphKind,
+        text: paragraphKind === 'list' ? `• ${line}` : line,
+        level: paragraphKind === 'heading' ? heading : paragraphKind === 'list' ? listLevel : undefined,
+        indent,
+        size,
+        fonts: Array.from(fonts),
+        pageBreak,
+        section: sections.length - 1,
+        ...extra
+      });
+      pageBreak = false;
+    });
+
+    textBoxes.forEach(box => {
+      const group = ++groups;
+      walkContent(box, 'text-box', { group });
+    });
+
+    // A section break inside a paragraph closes the section the paragraph belongs to
+    const sectPr = child(pPr, 'sectPr');
+    if (sectPr) closeSection(sectPr);
+  };
+
+  const walkTable = (table: Element, kind: BlockKind, extra: Partial<Paragraph>) => {
+    const group = extra.group ?? ++groups;
+    children(table, 'tr').forEach((row, rowIndex) => {
+      const cells = children(row, 'tc');
+      cells.forEach((cell, columnIndex) => {
+        // A nested table stays inside the cell that holds it
+        const position = extra.cell ?? { row: rowIndex, column: columnIndex, columns: cells.length };
+        walkContent(cell, kind === 'paragraph' ? 'table' : kind, { ...extra, group, cell: position });
+      });
+    });
+  };
+
+  const walkContent = (node: Element, kind: BlockKind, extra: Partial<Paragraph> = {}) => {
+    for (const element of children(node)) {
+      if (element.localName === 'p') walkParagraph(element, kind, extra);
+      else if (element.localName === 'tbl') walkTable(element, kind, extra);
+      else if (element.localName === 'sdt') walkContent(child(element, 'sdtContent') ?? element, kind, extra);
+      else if (element.localName === 'customXml' || element.localName === 'ins') walkContent(element, kind, extra);
+    }
+  };
+
+  const closeSection = (sectPr: Element) => {
+    sections[sections.length - 1] = numberAttribute(child(sectPr, 'cols'), 'num') ?? 1;
+    sections.push(1);
+  };
+
+  return {
+    walkContent,
+    closeSection,
+    result: () => ({ paragraphs, sections, images })
+  };
+};
+
+// Consecutive paragraphs of the same kind share a block, except headings; table cells and text boxes
+// only share one with paragraphs from the same table or box
+const sameBlock = (previous: Paragraph, paragraph: Paragraph) =>
+  previous.kind === paragraph.kind && paragraph.kind !== 'heading' && previous.group === paragraph.group;
+
+const extend = (block: TextBlock, line: TextLine) => {
+  const right = Math.max(block.x + block.width, line.x + line.width);
+  const top = Math.max(block.y + block.height, line.y + line.height);
+  block.x = Math.min(block.x, line.x);
+  block.y = Math.min(block.y, line.y);
+  block.width = right - block.x;
+  block.height = top - block.y;
+};
+
+// Flows paragraphs down the page from the top margin the way Word would, with each paragraph as one
+// line whose height allows for wrapping. Cells of one table row sit side by side, and a new page
+// starts at each page break and wherever the page fills up.
+const layOut = (paragraphs: Paragraph[], setup: PageSetup, sections: number[]): PageLayout[] => {
+  const pages: PageLayout[] = [];
+  const contentWidth = setup.width - setup.left - setup.right;
+  const pageTop = setup.height - setup.top;
+  let cursor = pageTop;
+  let row: { group?: number; row: number; column: number; top: number; bottom: number } | undefined;
+  let previous: Paragraph | undefined;
+
+  const newPage = () => {
+    pages.push({ number: pages.length + 1, width: setup.width, height: setup.height, items: [], blocks: [], images: 0, fonts: [] });
+    cursor = pageTop;
+    previous = undefined;
+    if (row) row = { ...row, top: cursor, bottom: cursor };
+  };
+  newPage();
+
+  for (const paragraph of paragraphs) {
+    const { cell } = paragraph;
+    const width = cell ? contentWidth / cell.columns : contentWidth - paragraph.indent;
+    const textWidth = paragraph.text.length * paragraph.size * CHARACTER_WIDTH;
+    const height = Math.ceil(textWidth / Math.max(width, 1) || 1) * paragraph.size * LINE_SPACING;
+
+    if (cell && row?.group === paragraph.group && row.row === cell.row) {
+      // The next cell of the same row starts back at the row's top
+      if (row.column !== cell.column) cursor = row.top;
+      row.column = cell.column;
+    } else {
+      if (row) cursor = row.bottom;
+      row = cell ? { group: paragraph.group, row: cell.row, column: cell.column, top: cursor, bottom: cursor } : undefined;
+    }
+    if (paragraph.pageBreak || (cursor - height < setup.bottom && cursor < pageTop)) newPage();
+
+    const page = pages[pages.length - 1];
+    const line: TextLine = {
+      text: paragraph.text,
+      x: setup.left + (cell ? cell.column * width : paragraph.indent),
+      y: cursor - height,
+      width: Math.min(textWidth, width),
+      height,
+      ...(paragraph.level !== undefined && { level: paragraph.level }),
+      ...(cell && { cell: { row: cell.row, column: cell.column } })
+    };
+    cursor = line.y;
+    if (row) row.bottom = Math.min(row.bottom, cursor);
+
+    const last = page.blocks[page.blocks.length - 1];
+    if (last && previous && sameBlock(previous, paragraph)) {
+      last.lines.push(line);
+      extend(last, line);
+    } else {
+      page.blocks.push({ kind: paragraph.kind, column: 0, x: line.x, y: line.y, width: line.width, height: line.height, lines: [line] });
+    }
+    previous = paragraph;
+
+    page.fonts = Array.from(new Set([...page.fonts!, ...paragraph.fonts]));
+    const columns = sections[paragraph.section] ?? 1;
+    if (columns > 1) page.columns = Math.max(page.columns ?? 1, columns);
+  }
+
+  return pages;
+};
+
+export interface DocxContent {
+  text: string;
+  layout: DocumentLayout;
+}
+
+// Reads a DOCX's paragraphs with their heading levels, list levels and table cells, along with its
+// text boxes, page headers and footers, and lays them out on estimated pages like a PDF's blocks
+export const readDocx = async (data: ArrayBuffer): Promise<DocxContent> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = await JSZip.loadAsync(data).catch((error) => {
+    console.error('Error reading DOCX:', error);
+    throw new Error(DAMAGED);
+  });
+  const read = async (path: string) => {
+    const xml = await zip.file(path)?.async('string');
+    return xml ? parseXml(xml) : undefined;
+  };
+
+  const document = await read('word/document.xml');
+  const body = child(document, 'body');
+  if (!body) throw new Error(DAMAGED);
+
+  const themeFonts = readThemeFonts(await read('word/theme/theme1.xml'));
+  const resolveStyle = readStyles(await read('word/styles.xml'), themeFonts);
+  const walker = createWalker(resolveStyle, themeFonts);
+
+  // Headers and footers live in their own parts, referenced from each section's properties
+  const relationships = await read('word/_rels/document.xml.rels');
+  const targets = new Map(
+    Array.from(relationships?.getElementsByTagName('Relationship') ?? [], rel => [rel.getAttribute('Id'), rel.getAttribute('Target')])
+  );
+  const bodySection = child(body, 'sectPr');
+  const parts = new Set<string>();
+  for (const kind of ['header', 'footer'] as const) {
+    for (const reference of Array.from(document!.getElementsByTagName(`w:${kind}Reference`))) {
+      const target = targets.get(reference.getAttribute('r:id'));
+      if (!target || parts.has(target)) continue;
+      parts.add(target);
+      const part = await read(`word/${target.replace(/^\/?word\//, '')}`);
+      if (part) walker.walkContent(part, kind);
+    }
+  }
+  walker.walkContent(body, 'paragraph');
+  if (bodySection) walker.closeSection(bodySection);
+
+  const { paragraphs, sections, images } = walker.result();
+  const setup = readPageSetup(bodySection);
+  const pages = layOut(paragraphs.filter(({ kind }) => kind !== 'header' && kind !== 'footer'), setup, sections);
+  // Inline images are counted for the whole document, so they are put on the first page
+  pages[0].images = images;
+
+  // Headers and footers repeat on every page; they are placed once, in the first page's margins
+  const band = (kind: BlockKind, top: number) => {
+    const [page] = layOut(paragraphs.filter(paragraph => paragraph.kind === kind), { ...setup, top, bottom: 0 }, sections);
+    pages[0].fonts = Array.from(new Set([...pages[0].fonts!, ...page.fonts!]));
+    return page.blocks;
+  };
+  const footerHeight = paragraphs
+    .filter(paragraph => paragraph.kind === 'footer')
+    .reduce((sum, paragraph) => sum + paragraph.size * LINE_SPACING, 0);
+  pages[0].blocks = [
+    ...band('header', setup.header),
+    ...pages[0].blocks,
+    ...band('footer', setup.height - setup.footer - footerHeight)
+  ];
+
+  const text = pages.map(page => blocksToText(page.blocks)).filter(Boolean).join('\n\n');
+  return { text, layout: { format: 'docx', pages } };
+};
@@ -0,0 +1,43 @@
+import type { LayoutItem, PageLayout } from './types';
+
+const GUTTER_BINS = 100;
+
+export const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)] ?? 0;
+
+// Groups runs that share a baseline, top to bottom and left to right within a line
+export const groupLines = (items: LayoutItem[]): LayoutItem[][] => {
+  const lines: LayoutItem[][] = [];
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  for (const item of sorted) {
+    const line = lines.find(candidate => Math.abs(candidate[0].y - item.y) < Math.max(item.height, 1) / 2);
+    if (line) line.push(item);
+    else lines.push([item]);
+  }
+  return lines.map(line => line.sort((a, b) => a.x - b.x));
+};
+
+// The x position of a vertical strip in the middle of the page that almost no text crosses,
+// with a fair share of the text on either side; undefined for a single-column page
+export const findGutter = (page: PageLayout): number | undefined => {
+  const coverage = new Array(GUTTER_BINS).fill(0);
+  for (const item of page.items) {
+    const from = Math.max(Math.floor((item.x / page.width) * GUTTER_BINS), 0);
+    const to = Math.min(Math.ceil(((item.x + item.width) / page.width) * GUTTER_BINS), GUTTER_BINS);
+    for (let bin = from; bin < to; bin++) coverage[bin]++;
+  }
+
+  // A few full-width lines, such as the name or section headings, may cross the gutter
+  const allowed = Math.max(page.items.length * 0.02, 1);
+  const characters = (keep: (item: LayoutItem) => boolean) =>
+    page.items.filter(keep).reduce((sum, item) => sum + item.text.length, 0);
+  const total = characters(() => true);
+
+  for (let bin = 20; bin < 80; bin++) {
+    if (coverage[bin] > allowed || coverage[bin + 1] > allowed) continue;
+    const x = ((bin + 1) / GUTTER_BINS) * page.width;
+    const left = characters(item => item.x + item.width <= x);
+    const right = characters(item => item.x >= x);
+    if (total > 0 && left / total >= 0.15 && right / total >= 0.15) return x;
+  }
+  return undefined;
+};
@@ -0,0 +1,10 @@
+export { analyzeLayout } from './analyze';
+export { readDocx } from './docx';
+export { openPdf, readPdf } from './pdf';
+export { recognizeImage } from './ocr';
+export { blocksToText, buildBlocks } from './reading-order';
+
+export type { AtsRisk, AtsWarning, BlockKind, DocumentLayout, LayoutItem, PageLayout, TextBlock, TextLine } from './types';
+export type { OcrResult } from './ocr';
+export type { DocxContent } from './docx';
+export type { PasswordPrompt, PdfContent } from './pdf';
@@ -0,0 +1,37 @@
+import type { Worker as TesseractWorker } from 'tesseract.js';
+// Tesseract, its WebAssembly core and the English model are bundled with the app, so OCR never
+// touches the network. The model keeps its file name in the build; Tesseract looks it up by name.
+import workerPath from 'tesseract.js/dist/worker.min.js?url';
+import corePath from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import englishModel from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+
+export interface OcrResult {
+  text: string;
+  // Tesseract's mean word confidence, 0-100
+  confidence: number;
+}
+
+let ocrWorker: Promise<TesseractWorker> | undefined;
+
+const startOcr = (): Promise<TesseractWorker> => {
+  ocrWorker ??= import('tesseract.js').then(({ createWorker, OEM }) =>
+    createWorker('eng', OEM.LSTM_ONLY, {
+      workerPath,
+      corePath,
+      langPath: englishModel.slice(0, englishModel.lastIndexOf('/')),
+      workerBlobURL: false,
+      cacheMethod: 'none'
+    })
+  );
+
+  ocrWorker.catch(() => {
+    ocrWorker = undefined;
+  });
+  return ocrWorker;
+};
+
+export const recognizeImage = async (canvas: HTMLCanvasElement): Promise<OcrResult> => {
+  const worker = await startOcr();
+  const { data } = await worker.recognize(canvas);
+  return { text: data.text.trim(), confidence: Math.round(data.confidence) };
+};
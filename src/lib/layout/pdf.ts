@@ -0,0 +1,271 @@
+import type { PDFDocumentProxy, PDFOperatorList, PDFPageProxy, PDFWorker, TextItem } from 'pdfjs-dist/types/src/display/api';
+// Bundled from the installed pdfjs-dist, so the worker always matches the API and loads offline
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { recognizeImage } from './ocr';
+import { blocksToText, buildBlocks } from './reading-order';
+import type { DocumentLayout, LayoutItem, PageLayout } from './types';
+
+const IMAGE_OPERATORS = ['paintImageXObject', 'paintInlineImageXObject', 'paintImageMaskXObject', 'paintImageXObjectRepeat'];
+
+// "ABCDEF+Calibri-Bold" -> "Calibri-Bold"
+const stripSubset = (name: string) => name.replace(/^[A-Z]{6}\+/, '');
+
+const WORKER_FAILED = 'The PDF reader failed to start. Reload the page and try again, or paste your resume text instead.';
+
+let worker: Promise<PDFWorker> | undefined;
+
+// Starts the pdf.js worker once and reuses it; a failed start is retried on the next upload
+const startWorker = (): Promise<PDFWorker> => {
+  worker ??= import('pdfjs-dist').then(async ({ GlobalWorkerOptions, PDFWorker }) => {
+    GlobalWorkerOptions.workerSrc = workerUrl;
+    const instance = new PDFWorker();
+    await instance.promise;
+    return instance;
+  });
+
+  worker.catch(() => {
+    worker = undefined;
+  });
+  return worker;
+};
+
+const DAMAGED = 'This PDF file is damaged and its text could not be read. Save it again or try another format.';
+
+// Asks the user for the password of an encrypted PDF; `incorrect` is set when a previous attempt was wrong.
+// Resolving with undefined cancels the upload.
+export type PasswordPrompt = (incorrect: boolean) => Promise<string | undefined>;
+
+export const openPdf = async (data: ArrayBuffer, requestPassword?: PasswordPrompt): Promise<PDFDocumentProxy> => {
+  const instance = await startWorker().catch((error) => {
+    console.error('Error starting the PDF worker:', error);
+    throw new Error(WORKER_FAILED);
+  });
+  const { getDocument, PasswordResponses } = await import('pdfjs-dist');
+
+  const task = getDocument({ data, worker: instance });
+  let cancelled = false;
+  if (requestPassword) {
+    // Answering with an error instead of a password makes pdf.js give up on the document
+    task.onPassword = (updatePassword: (password: string | Error) => void, reason: number) => {
+      requestPassword(reason === PasswordResponses.INCORRECT_PASSWORD).then((password) => {
+        cancelled = password === undefined;
+        updatePassword(password ?? new Error('Password entry was cancelled'));
+      });
+    };
+  }
+
+  try {
+    return await task.promise;
+  } catch (error) {
+    const name = error instanceof Error ? error.name : '';
+    const message = error instanceof Error ? error.message : String(error);
+    if (cancelled || name === 'PasswordException') {
+      throw new Error('This PDF is password-protected. Enter its password, or remove the password and upload it again.');
+    }
+    if (name === 'InvalidPDFException') {
+      throw new Error(DAMAGED);
+    }
+    // pdf.js refuses to talk to a worker from another release, e.g. one cached from an older deploy
+    if (/does not match the Worker version/.test(message)) {
+      console.error('PDF worker version mismatch:', message);
+      throw new Error('The PDF reader is out of date. Reload the page and try again.');
+    }
+    throw error;
+  }
+};
+
+// Pages with less text than this have no real text layer, only stray marks such as a page number
+const MIN_TEXT_LAYER = 20;
+// Rendering at twice the PDF's 72 dpi gives Tesseract enough detail for body text
+const OCR_SCALE = 2;
+
+const recognizePage = async (page: PDFPageProxy) => {
+  const viewport = page.getViewport({ scale: OCR_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  try {
+    await page.render({ canvasContext: canvas.getContext('2d'), canvas, viewport }).promise;
+    return await recognizeImage(canvas);
+  } finally {
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+};
+
+const FILL_OPERATORS = ['fill', 'eoFill', 'fillStroke', 'eoFillStroke', 'closeFillStroke', 'closeEOFillStroke'];
+
+interface Paint {
+  // Every character drawn, whitespace removed, with its fill colour and how many shapes were filled before it
+  text: string;
+  colors: string[];
+  fillCounts: number[];
+  // Filled shapes as [minX, minY, maxX, maxY] in page space
+  fills: { box: number[]; color: string }[];
+}
+
+// Replays the page's drawing operations to learn the colour each character is painted in and what was
+// filled beneath it; text content alone carries neither
+const tracePaint = async (operators: PDFOperatorList): Promise<Paint> => {
+  const { OPS, Util } = await import('pdfjs-dist');
+  const fillOps = new Set(FILL_OPERATORS.map(name => OPS[name as keyof typeof OPS]));
+  const paint: Paint = { text: '', colors: [], fillCounts: [], fills: [] };
+  const saved: { color: string; matrix: number[] }[] = [];
+  let color = '#000000';
+  let matrix = [1, 0, 0, 1, 0, 0];
+
+  operators.fnArray.forEach((fn, index) => {
+    const args = operators.argsArray[index];
+    switch (fn) {
+      case OPS.save:
+        saved.push({ color, matrix });
+        break;
+      case OPS.paintFormXObjectBegin:
+        saved.push({ color, matrix });
+        if (args?.[0]) matrix = Util.transform(matrix, args[0]);
+        break;
+      case OPS.restore:
+      case OPS.paintFormXObjectEnd:
+        ({ color, matrix } = saved.pop() ?? { color, matrix });
+        break;
+      case OPS.transform:
+        matrix = Util.transform(matrix, args);
+        break;
+      case OPS.setFillRGBColor:
+        color = args[0];
+        break;
+      case OPS.constructPath:
+        if (fillOps.has(args[0]) && args[2]) {
+          const box = Array.from(args[2] as ArrayLike<number>);
+          Util.scaleMinMax(matrix, box);
+          paint.fills.push({ box, color });
+        }
+        break;
+      case OPS.showText:
+        for (const glyph of args[0]) {
+          const chars = typeof glyph?.unicode === 'string' ? glyph.unicode.normalize('NFKC').replace(/\s+/g, '') : '';
+          for (const char of chars) {
+            paint.text += char;
+            paint.colors.push(color);
+            paint.fillCounts.push(paint.fills.length);
+          }
+        }
+        break;
+    }
+  });
+  return paint;
+};
+
+// How far ahead a run may be found in the traced characters before it is treated as untraceable
+const TRACE_WINDOW = 200;
+
+// Text content lists runs in drawing order, so each run is looked up just after the previous one
+const colorItems = (items: LayoutItem[], paint: Paint) => {
+  let cursor = 0;
+  for (const item of items) {
+    const key = item.text.replace(/\s+/g, '');
+    const at = paint.text.indexOf(key, cursor);
+    if (at < 0 || at - cursor > TRACE_WINDOW) continue;
+    cursor = at + key.length;
+
+    const x = item.x + item.width / 2;
+    const y = item.y + item.height / 2;
+    const beneath = paint.fills
+      .slice(0, paint.fillCounts[at])
+      .reverse()
+      .find(({ box }) => x >= box[0] && x <= box[2] && y >= box[1] && y <= box[3]);
+    item.color = paint.colors[at];
+    item.background = beneath?.color;
+  }
+};
+
+export interface PdfContent {
+  text: string;
+  layout: DocumentLayout;
+  // Pages that could not be read and were left out
+  failedPages: number[];
+}
+
+const readPage = async (
+  pdf: PDFDocumentProxy,
+  number: number,
+  imageOps: Set<number>,
+  onProgress?: (message: string) => void
+): Promise<PageLayout> => {
+  const page = await pdf.getPage(number);
+  const viewport = page.getViewport({ scale: 1 });
+  const textContent = await page.getTextContent();
+  // Loading the operator list also resolves the page's fonts, which carry their real names
+  const operators = await page.getOperatorList();
+
+  // Empty when pdf.js only knows a generic family such as "sans-serif"
+  const fontName = (id: string): string => {
+    const font = page.commonObjs.has(id) ? page.commonObjs.get(id) : undefined;
+    return font?.name ? stripSubset(font.name) : '';
+  };
+
+  const textItems = textContent.items.filter((item): item is TextItem => 'str' in item);
+  const items: LayoutItem[] = textItems
+    .filter(item => item.str.trim().length > 0)
+    .map(item => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      height: item.height || Math.abs(item.transform[3]),
+      font: fontName(item.fontName)
+    }));
+
+  try {
+    colorItems(items, await tracePaint(operators));
+  } catch (error) {
+    console.error(`Error tracing colours on page ${number}:`, error);
+  }
+
+  const layout: PageLayout = {
+    number,
+    width: viewport.width,
+    height: viewport.height,
+    items,
+    blocks: [],
+    images: operators.fnArray.filter(fn => imageOps.has(fn)).length
+  };
+  layout.blocks = buildBlocks(layout);
+
+  if (items.reduce((sum, item) => sum + item.text.trim().length, 0) < MIN_TEXT_LAYER) {
+    onProgress?.(`Reading scanned page ${number} of ${pdf.numPages}...`);
+    try {
+      layout.ocr = await recognizePage(page);
+    } catch (error) {
+      console.error(`Error running OCR on page ${number}:`, error);
+    }
+  }
+  return layout;
+};
+
+// Reads every page's text in reading order, along with where each run sits and which font draws it.
+// A damaged page is skipped so the rest of the resume can still be read.
+export const readPdf = async (
+  pdf: PDFDocumentProxy,
+  onProgress?: (message: string) => void
+): Promise<PdfContent> => {
+  const { OPS } = await import('pdfjs-dist');
+  const imageOps = new Set(IMAGE_OPERATORS.map(name => OPS[name as keyof typeof OPS]));
+  const pages: PageLayout[] = [];
+  const failedPages: number[] = [];
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    try {
+      pages.push(await readPage(pdf, i, imageOps, onProgress));
+    } catch (error) {
+      console.error(`Error reading PDF page ${i}:`, error);
+      failedPages.push(i);
+    }
+  }
+  if (pages.length === 0) {
+    throw new Error(DAMAGED);
+  }
+
+  const text = pages.map(page => page.ocr?.text ?? blocksToText(page.blocks)).filter(Boolean).join('\n\n');
+  return { text, layout: { format: 'pdf', pages }, failedPages };
+};
@@ -0,0 +1,96 @@
+import { findGutter, groupLines, median } from './geometry';
+import type { LayoutItem, PageLayout, TextBlock, TextLine } from './types';
+
+// Bullets drawn with Symbol or Wingdings glyphs extract as private-use characters
+export const GLYPH_BULLETS = /[\uF0B7\uF0A7\uF076\uF0D8\uF0FC\uF06C\uF0A8]/g;
+// Gaps narrower than this share of the font size are kerning, not a space between words
+const SPACE_GAP = 0.12;
+// A blank stretch taller than this share of the line height starts a new paragraph
+const PARAGRAPH_GAP = 0.6;
+
+const joinLine = (items: LayoutItem[]): TextLine => {
+  let text = '';
+  items.forEach((item, index) => {
+    const previous = items[index - 1];
+    const gap = previous ? item.x - (previous.x + previous.width) : 0;
+    if (previous && gap > item.height * SPACE_GAP && !/\s$/.test(text) && !/^\s/.test(item.text)) {
+      text += ' ';
+    }
+    text += item.text.replace(GLYPH_BULLETS, '•');
+  });
+
+  const x = Math.min(...items.map(item => item.x));
+  return {
+    text: text.replace(/\s+/g, ' ').trim(),
+    x,
+    y: Math.min(...items.map(item => item.y)),
+    width: Math.max(...items.map(item => item.x + item.width)) - x,
+    height: Math.max(...items.map(item => item.height))
+  };
+};
+
+const toBlock = (lines: TextLine[], column: number): TextBlock => {
+  const x = Math.min(...lines.map(line => line.x));
+  const y = Math.min(...lines.map(line => line.y));
+  return {
+    kind: 'paragraph',
+    column,
+    x,
+    y,
+    width: Math.max(...lines.map(line => line.x + line.width)) - x,
+    height: Math.max(...lines.map(line => line.y + line.height)) - y,
+    lines
+  };
+};
+
+// Lines top to bottom, split into blocks wherever the vertical gap opens up into a paragraph break
+const toBlocks = (items: LayoutItem[], column: number): TextBlock[] => {
+  const lines = groupLines(items).map(joinLine).filter(line => line.text.length > 0);
+  if (lines.length === 0) return [];
+
+  const lineHeight = median(lines.map(line => line.height)) || 1;
+  const blocks: TextLine[][] = [[lines[0]]];
+  lines.slice(1).forEach((line, index) => {
+    const gap = lines[index].y - (line.y + line.height);
+    if (gap > lineHeight * PARAGRAPH_GAP) blocks.push([line]);
+    else blocks[blocks.length - 1].push(line);
+  });
+  return blocks.map(block => toBlock(block, column));
+};
+
+// Orders a page's text the way a person reads it. On a two-column page, lines that span the gutter
+// (a name, a full-width heading) split the page into bands, and each band is read left column first.
+export const buildBlocks = (page: PageLayout): TextBlock[] => {
+  const gutter = findGutter(page);
+  if (gutter === undefined) return toBlocks(page.items, 0);
+
+  const crosses = (item: LayoutItem) => item.x < gutter && item.x + item.width > gutter;
+  const spanning = groupLines(page.items.filter(crosses));
+  const columns = page.items.filter(item => !crosses(item));
+  const consumed = new Set<LayoutItem>();
+  const blocks: TextBlock[] = [];
+
+  const readBand = (band: LayoutItem[]) => {
+    band.forEach(item => consumed.add(item));
+    blocks.push(
+      ...toBlocks(band.filter(item => item.x + item.width <= gutter), 0),
+      ...toBlocks(band.filter(item => item.x >= gutter), 1)
+    );
+  };
+
+  for (const line of spanning) {
+    const baseline = line[0].y;
+    const tolerance = Math.max(line[0].height, 1) / 2;
+    readBand(columns.filter(item => !consumed.has(item) && item.y > baseline + tolerance));
+
+    const sameRow = columns.filter(item => !consumed.has(item) && Math.abs(item.y - baseline) < tolerance);
+    sameRow.forEach(item => consumed.add(item));
+    blocks.push(...toBlocks([...line, ...sameRow], 0));
+  }
+  readBand(columns.filter(item => !consumed.has(item)));
+
+  return blocks;
+};
+
+export const blocksToText = (blocks: TextBlock[]): string =>
+  blocks.map(block => block.lines.map(line => line.text).join('\n')).join('\n\n');
@@ -0,0 +1,88 @@
+import type { OcrResult } from './ocr';
+
+// One run of text as pdf.js reports it. Coordinates are in PDF points with the origin at the
+// bottom-left corner of the page, so `y` grows upwards.
+export interface LayoutItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Font name without the subset prefix, e.g. "Calibri-Bold"
+  font: string;
+  // Fill colour as "#rrggbb", and the colour of the filled shape drawn beneath the run; a missing
+  // background means the bare page. PDF only, and only for runs traced back to the page's drawing.
+  color?: string;
+  background?: string;
+}
+
+// A line of text rebuilt from the runs on one baseline. DOCX has no rendered lines, so there each
+// paragraph is one line, placed where it would flow on the page.
+export interface TextLine {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Heading level (1 for the title or top heading) or list nesting depth (0 for top-level items)
+  level?: number;
+  // Position in the table, for lines inside a table cell
+  cell?: { row: number; column: number };
+}
+
+// What a block is, where the document says so; PDFs only ever have paragraphs
+export type BlockKind = 'paragraph' | 'heading' | 'list' | 'table' | 'text-box' | 'header' | 'footer';
+
+// Consecutive lines of one column with no paragraph break between them
+export interface TextBlock {
+  kind: BlockKind;
+  // 0 for the left or only column, 1 for the right column
+  column: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  lines: TextLine[];
+}
+
+export interface PageLayout {
+  number: number;
+  width: number;
+  height: number;
+  items: LayoutItem[];
+  // The page's text in reading order
+  blocks: TextBlock[];
+  // Images painted on the page; text inside them is invisible to a parser
+  images: number;
+  // Text columns the document declares; PDFs declare none, so their columns are measured instead
+  columns?: number;
+  // Fonts named by a format without positioned runs; PDF fonts are on the items
+  fonts?: string[];
+  // Set when the page had no text layer and its text was recognized from the rendered image
+  ocr?: OcrResult;
+}
+
+export interface DocumentLayout {
+  format: 'pdf' | 'docx';
+  pages: PageLayout[];
+}
+
+export type AtsRisk =
+  | 'multi-column'
+  | 'table'
+  | 'header-footer'
+  | 'contact-in-header'
+  | 'image-text'
+  | 'scanned-page'
+  | 'text-box'
+  | 'font'
+  | 'unreadable-text';
+
+export interface AtsWarning {
+  risk: AtsRisk;
+  message: string;
+  // 1-based page number, when the warning is about a specific page
+  page?: number;
+  // The affected text, if any, so it can be located in the extracted content
+  text?: string;
+}
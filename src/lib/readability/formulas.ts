@@ -0,0 +1,93 @@
+import { splitSentences } from './sentences';
+import { countSyllables } from './syllables';
+import type { ReadabilityFormula, ReadabilityReport, ReadabilityTarget, Sentence } from './types';
+
+// Bands that suit a resume: dense and professional, but quick to scan
+export const READABILITY_TARGETS: Record<ReadabilityFormula, ReadabilityTarget> = {
+  fleschReadingEase: {
+    label: 'Flesch Reading Ease',
+    min: 30,
+    max: 60,
+    description: 'Higher is easier; 0-100'
+  },
+  fleschKincaidGrade: {
+    label: 'Flesch-Kincaid Grade',
+    min: 6,
+    max: 12,
+    description: 'US school grade needed to follow the text'
+  },
+  gunningFog: {
+    label: 'Gunning Fog',
+    min: 7,
+    max: 14,
+    description: 'Years of education needed on a first read'
+  },
+  smog: {
+    label: 'SMOG',
+    min: 7,
+    max: 13,
+    description: 'Grade level based on polysyllabic words'
+  }
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Gunning Fog leaves out proper nouns, hyphenated compounds and words that only reach
+// three syllables through an -es, -ed or -ing ending
+const isComplexWord = (word: string, index: number, syllables: number) => {
+  if (syllables < 3 || word.includes('-')) return false;
+  if (index > 0 && /^[A-Z]/.test(word)) return false;
+  const stem = word.replace(/(?:es|ed|ing)$/i, '');
+  return stem === word || countSyllables(stem) >= 3;
+};
+
+export const computeReadability = (input: string | Sentence[]): ReadabilityReport => {
+  const sentences = typeof input === 'string' ? splitSentences(input) : input;
+  let words = 0;
+  let syllables = 0;
+  let polysyllables = 0;
+  let complexWords = 0;
+
+  for (const sentence of sentences) {
+    sentence.words.forEach((word, index) => {
+      const count = countSyllables(word);
+      words++;
+      syllables += count;
+      if (count >= 3) polysyllables++;
+      if (isComplexWord(word, index, count)) complexWords++;
+    });
+  }
+
+  if (words === 0) {
+    return {
+      sentences: 0,
+      words: 0,
+      syllables: 0,
+      polysyllables: 0,
+      complexWords: 0,
+      avgWordsPerSentence: 0,
+      avgSyllablesPerWord: 0,
+      fleschReadingEase: 0,
+      fleschKincaidGrade: 0,
+      gunningFog: 0,
+      smog: 0
+    };
+  }
+
+  const wordsPerSentence = words / sentences.length;
+  const syllablesPerWord = syllables / words;
+
+  return {
+    sentences: sentences.length,
+    words,
+    syllables,
+    polysyllables,
+    complexWords,
+    avgWordsPerSentence: round(wordsPerSentence),
+    avgSyllablesPerWord: round(syllablesPerWord),
+    fleschReadingEase: round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord),
+    fleschKincaidGrade: round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59),
+    gunningFog: round(0.4 * (wordsPerSentence + 100 * (complexWords / words))),
+    smog: round(1.043 * Math.sqrt(polysyllables * (30 / sentences.length)) + 3.1291)
+  };
+};
@@ -0,0 +1,5 @@
+export { computeReadability, READABILITY_TARGETS } from './formulas';
+export { splitSentences, splitWords } from './sentences';
+export { countSyllables } from './syllables';
+
+export type { ReadabilityFormula, ReadabilityReport, ReadabilityTarget, Sentence } from './types';
@@ -0,0 +1,42 @@
+import type { Sentence } from './types';
+
+const WORD_PATTERN = /[A-Za-z0-9][A-Za-z0-9'’.+#/-]*[A-Za-z0-9+#]|[A-Za-z0-9]/g;
+// A run of sentence-ending punctuation that is followed by whitespace, so "Node.js" stays whole
+const SENTENCE_END = /[.!?]+(?=\s|$)/g;
+const ABBREVIATIONS = new Set(['e.g', 'i.e', 'etc', 'vs', 'inc', 'ltd', 'co', 'corp', 'jr', 'sr', 'dr', 'mr', 'ms', 'mrs', 'u.s', 'no', 'approx']);
+// Headings, names and other fragments this short are not prose
+const MIN_SENTENCE_WORDS = 3;
+
+export const splitWords = (text: string): string[] => text.match(WORD_PATTERN) ?? [];
+
+// Each line is at least one sentence, so bullets without a final period still count on their own
+export const splitSentences = (content: string): Sentence[] => {
+  const sentences: Sentence[] = [];
+  let lineStart = 0;
+
+  for (const line of content.split('\n')) {
+    const boundaries = Array.from(line.matchAll(SENTENCE_END))
+      .filter(match => {
+        const before = line.slice(0, match.index).match(/([A-Za-z.]+)$/)?.[1].toLowerCase();
+        return !before || !ABBREVIATIONS.has(before);
+      })
+      .map(match => match.index! + match[0].length);
+
+    let from = 0;
+    for (const to of [...boundaries, line.length]) {
+      const raw = line.slice(from, to);
+      const leading = raw.length - raw.trimStart().length;
+      const text = raw.trim();
+      const words = splitWords(text);
+      if (words.length >= MIN_SENTENCE_WORDS) {
+        const start = lineStart + from + leading;
+        sentences.push({ text, start, end: start + text.length, words });
+      }
+      from = to;
+    }
+
+    lineStart += line.length + 1;
+  }
+
+  return sentences;
+};
@@ -0,0 +1,55 @@
+// Words the heuristics below get wrong often enough to matter on a resume
+const EXCEPTIONS: Record<string, number> = {
+  area: 3,
+  business: 2,
+  create: 2,
+  created: 3,
+  creates: 2,
+  creating: 3,
+  creation: 3,
+  creative: 3,
+  element: 3,
+  elements: 3,
+  idea: 3,
+  people: 2,
+  poem: 2,
+  poems: 2,
+  queue: 1,
+  queued: 1,
+  queues: 1,
+  react: 2,
+  reacted: 3,
+  science: 2
+};
+
+// Vowel groups that are pronounced as one syllable fewer or more than they look
+const SUBTRACT = [
+  /cial/, /tia/, /cius/, /cious/, /giu/, /ion/, /iou/, /sia$/, /.ely$/, /[^aeiouytd]ed$/,
+  /(?:[^aeiouylszxgc]|[aeiouy]l)es$/,
+  // A silent e before a suffix: "management", "hopeful", "completeness"
+  /[aeiouy][^aeiouy]e(?:ment|ments|ful|ness|less)$/
+];
+const ADD = [
+  /ia/, /riet/, /dien/, /[^c]ienc/, /iu/, /io/, /ii/, /[aeiou]{3}/, /^mc/, /ism$/, /[^l]lien/,
+  /^coa[dglx]./, /[^gq]ua[^auieo]/, /dnt$/, /[aeiouy]ing$/
+];
+
+// Estimated syllables in a single English word; acronyms and numbers count as one
+export const countSyllables = (word: string): number => {
+  const letters = word.replace(/[^A-Za-z]/g, '');
+  if (!letters || (letters === letters.toUpperCase() && letters.length > 1)) return 1;
+
+  const lower = letters.toLowerCase();
+  if (EXCEPTIONS[lower]) return EXCEPTIONS[lower];
+  if (lower.length <= 3) return 1;
+
+  const stem = lower.replace(/e$/, '');
+  const groups = stem.split(/[^aeiouy]+/).filter(Boolean).length;
+  // A consonant before a final "le" makes a syllable of its own: "sim-ple", "ti-tle"
+  const syllabicLe = /[^aeiouy]le$/.test(lower) ? 1 : 0;
+  const count = groups
+    - SUBTRACT.filter(pattern => pattern.test(stem)).length
+    + ADD.filter(pattern => pattern.test(stem)).length
+    + syllabicLe;
+  return Math.max(count, 1);
+};
@@ -0,0 +1,33 @@
+// A sentence or bullet line with its character offsets; `end` is exclusive
+export interface Sentence {
+  text: string;
+  start: number;
+  end: number;
+  words: string[];
+}
+
+export interface ReadabilityReport {
+  sentences: number;
+  words: number;
+  syllables: number;
+  // Words of three or more syllables (SMOG)
+  polysyllables: number;
+  // Polysyllables that are not proper nouns, compounds or inflected short words (Gunning Fog)
+  complexWords: number;
+  avgWordsPerSentence: number;
+  avgSyllablesPerWord: number;
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+  gunningFog: number;
+  smog: number;
+}
+
+export type ReadabilityFormula = 'fleschReadingEase' | 'fleschKincaidGrade' | 'gunningFog' | 'smog';
+
+export interface ReadabilityTarget {
+  label: string;
+  min: number;
+  max: number;
+  // What the number means, for display next to the band
+  description: string;
+}
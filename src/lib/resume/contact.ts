@@ -0,0 +1,75 @@
+import { DATE_RANGE_PATTERN } from './dates';
+import type { ContactBlock, ResumeLine } from './types';
+
+// Deliberately loose so malformed addresses are still picked up and can be reported
+const EMAIL_CANDIDATE = /[^\s|,;:<>()[\]]+@[^\s|,;:<>()[\]]*/;
+const PHONE_CANDIDATE = /(?:\+|00)?\(?\d[\d\s().-]{5,}\d(?:\s*(?:x|ext\.?)\s*\d{1,5})?/i;
+const LINKEDIN_PATTERN = /(?:https?:\/\/)?(?:[\w-]+\.)?linkedin\.com\/[^\s|,;]*/i;
+const GITHUB_PATTERN = /(?:https?:\/\/)?(?:www\.)?github\.com\/[^\s|,;]*/i;
+const URL_PATTERN = /(?:https?:\/\/)?(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|dev|me|app|co|design|page|site|tech|xyz|info|portfolio|github\.io)(?:\/[^\s|,;]*)?/i;
+const LOCATION_PATTERN = /^([A-Z][A-Za-z.'-]+(?:\s[A-Z][A-Za-z.'-]+)*),\s*([A-Z]{2}|[A-Z][A-Za-z]+(?:\s[A-Z][A-Za-z]+)*)(?:,\s*([A-Z][A-Za-z]+(?:\s[A-Z][A-Za-z]+)*))?$/;
+
+const splitSegments = (line: string) =>
+  line.split(/\s*[|•·]\s*|\s{2,}|\t/).map(segment => segment.trim()).filter(Boolean);
+
+const trimPunctuation = (value: string) => value.replace(/^[\s(<[]+|[\s.,;:)>\]]+$/g, '');
+
+const findPhone = (text: string): string | undefined => {
+  const candidates = text.match(new RegExp(PHONE_CANDIDATE, 'gi')) ?? [];
+  return candidates
+    .map(candidate => candidate.trim())
+    .find(candidate => {
+      const digits = candidate.replace(/\D/g, '').length;
+      return digits >= 7 && digits <= 15 && !DATE_RANGE_PATTERN.test(candidate);
+    });
+};
+
+const findName = (lines: ResumeLine[]): string | undefined =>
+  lines
+    .map(line => splitSegments(line.text)[0] ?? '')
+    .find(segment =>
+      segment.length > 1
+      && segment.length <= 60
+      && !/[@\d/]/.test(segment)
+      && !URL_PATTERN.test(segment)
+      && !LOCATION_PATTERN.test(segment)
+    );
+
+const findLocation = (segments: string[]): { city?: string; region?: string } => {
+  for (const segment of segments) {
+    if (/[@\d/]/.test(segment) || URL_PATTERN.test(segment)) continue;
+    const match = segment.replace(/^(location|address)\s*:\s*/i, '').match(LOCATION_PATTERN);
+    if (match) {
+      return { city: match[1], region: match[3] ? `${match[2]}, ${match[3]}` : match[2] };
+    }
+  }
+  return {};
+};
+
+export const extractContact = (lines: ResumeLine[]): ContactBlock => {
+  const text = lines.map(line => line.text).join('\n');
+  const segments = lines.flatMap(line => splitSegments(line.text));
+  const withoutEmail = text.replace(new RegExp(EMAIL_CANDIDATE, 'g'), ' ');
+
+  const email = text.match(EMAIL_CANDIDATE)?.[0];
+  const linkedin = withoutEmail.match(LINKEDIN_PATTERN)?.[0];
+  const github = withoutEmail.match(GITHUB_PATTERN)?.[0];
+  const portfolio = segments
+    .filter(segment => !segment.includes('@') && !LINKEDIN_PATTERN.test(segment) && !GITHUB_PATTERN.test(segment))
+    .map(segment => segment.replace(/^(portfolio|website|web|site)\s*:\s*/i, '').match(URL_PATTERN)?.[0])
+    .find(Boolean);
+  const { city, region } = findLocation(segments);
+
+  return {
+    lines,
+    name: findName(lines),
+    email: email && trimPunctuation(email),
+    phone: findPhone(withoutEmail),
+    city,
+    region,
+    linkedin: linkedin && trimPunctuation(linkedin),
+    github: github && trimPunctuation(github),
+    portfolio: portfolio && trimPunctuation(portfolio),
+    links: [linkedin, github, portfolio].filter(Boolean).map(trimPunctuation)
+  };
+};
@@ -0,0 +1,61 @@
+import type { DateRange } from './types';
+
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const YEAR = '(?:19|20)\\d{2}';
+const DATE = `(?:${MONTH}\\s+${YEAR}|\\d{1,2}/${YEAR}|${YEAR})`;
+const OPEN_END = '(?:present|current|now|today)';
+
+// "2018-21" abbreviates the end year, so a two-digit end is allowed after a dash
+export const DATE_RANGE_PATTERN = new RegExp(
+  `\\b${DATE}\\s*(?:(?:-|–|—|to)\\s*(?:${DATE}|${OPEN_END})|[-–—]\\s*\\d{2})\\b`,
+  'i'
+);
+export const SINGLE_DATE_PATTERN = new RegExp(`\\b${DATE}\\b`, 'i');
+
+// Returns the date or date range written on a line, e.g. "Jan 2020 – Present"
+export const findDates = (line: string): string | undefined =>
+  (line.match(DATE_RANGE_PATTERN) ?? line.match(SINGLE_DATE_PATTERN))?.[0];
+
+export const stripDates = (line: string): string => {
+  const dates = findDates(line);
+  return dates ? line.replace(dates, '') : line;
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "Jan 2020" for a month counted from year 0, as returned by parseDateRange
+export const formatMonth = (month: number): string =>
+  `${MONTH_NAMES[month % 12].replace(/^./, letter => letter.toUpperCase())} ${Math.floor(month / 12)}`;
+
+// Months since year 0, so two dates subtract to a number of months. A bare year starts in January
+// and, as the end of a range, runs through December.
+const toMonth = (date: string, end = false): number | undefined => {
+  const year = date.match(/(?:19|20)\d{2}/);
+  if (!year) return undefined;
+  const numeric = date.match(/^(\d{1,2})\//);
+  const named = MONTH_NAMES.findIndex(name => date.toLowerCase().startsWith(name));
+  const month = numeric ? Number(numeric[1]) - 1 : named >= 0 ? named : end ? 11 : 0;
+  return Number(year[0]) * 12 + Math.min(Math.max(month, 0), 11);
+};
+
+// Start and end of the date range on a line as months since year 0 (year * 12 + month index).
+// A single date ends where it starts unless it is a bare year; an open end ("Present") ends in the current month.
+export const parseDateRange = (line: string, today = new Date()): DateRange | undefined => {
+  const dates = findDates(line);
+  if (!dates) return undefined;
+  const [from, to] = dates.split(/\s*(?:-|–|—|\bto\b)\s*/i);
+  const start = toMonth(from);
+  if (start === undefined) return undefined;
+
+  const current = to !== undefined && new RegExp(`^${OPEN_END}$`, 'i').test(to.trim());
+  // A two-digit end year takes the start's century, or the next one for "1998-02"
+  const shortYear = to?.match(/^\d{2}$/);
+  const startYear = Math.floor(start / 12);
+  const endYear = shortYear ? startYear - (startYear % 100) + Number(shortYear[0]) : undefined;
+  const end = current
+    ? today.getFullYear() * 12 + today.getMonth()
+    : endYear !== undefined
+      ? (endYear < startYear ? endYear + 100 : endYear) * 12 + 11
+      : toMonth(to ?? from, true) ?? start;
+  return { start, end, current };
+};
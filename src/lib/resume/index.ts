@@ -0,0 +1,15 @@
+export { BULLET_PATTERN, parseResume } from './parser';
+export { extractContact } from './contact';
+export { findDates, formatMonth, parseDateRange, stripDates, DATE_RANGE_PATTERN, SINGLE_DATE_PATTERN } from './dates';
+
+export type {
+  ContactBlock,
+  DateRange,
+  EducationEntry,
+  ExperienceEntry,
+  ProjectEntry,
+  ResumeLine,
+  ResumeModel,
+  ResumeSection,
+  SectionKind
+} from './types';
@@ -0,0 +1,201 @@
+import { GLYPH_BULLETS } from '@/lib/layout/reading-order';
+import { extractContact } from './contact';
+import { findDates, stripDates } from './dates';
+import type {
+  EducationEntry,
+  ExperienceEntry,
+  ProjectEntry,
+  ResumeLine,
+  ResumeModel,
+  ResumeSection,
+  SectionKind
+} from './types';
+
+const sectionAliases: Record<SectionKind, string[]> = {
+  contact: ['contact', 'contact information', 'contact details', 'personal details', 'personal information'],
+  summary: [
+    'summary', 'professional summary', 'career summary', 'executive summary', 'profile',
+    'professional profile', 'about', 'about me', 'objective', 'career objective', 'overview'
+  ],
+  experience: [
+    'experience', 'work experience', 'professional experience', 'relevant experience',
+    'employment', 'employment history', 'work history', 'career history'
+  ],
+  education: ['education', 'academic background', 'education and training', 'academic history'],
+  skills: [
+    'skills', 'technical skills', 'key skills', 'core skills', 'core competencies', 'competencies',
+    'technologies', 'tools and technologies', 'skills and tools', 'tech stack'
+  ],
+  certifications: [
+    'certifications', 'certificates', 'certification', 'licenses', 'licenses and certifications',
+    'certifications and licenses'
+  ],
+  projects: ['projects', 'personal projects', 'key projects', 'selected projects', 'side projects'],
+  other: [
+    'awards', 'honors', 'honors and awards', 'achievements', 'publications', 'volunteer',
+    'volunteering', 'volunteer experience', 'interests', 'hobbies', 'languages', 'references',
+    'activities', 'leadership', 'additional information'
+  ]
+};
+
+const headingKinds = new Map<string, SectionKind>(
+  Object.entries(sectionAliases).flatMap(([kind, aliases]) =>
+    aliases.map(alias => [alias, kind as SectionKind] as [string, SectionKind])
+  )
+);
+
+export const BULLET_PATTERN = new RegExp(`^(?:[-*•·▪◦●‣–—>]|${GLYPH_BULLETS.source})\\s*`);
+const DEGREE_PATTERN = /\b(bachelor|master|doctor|ph\.?d|mba|b\.?s\.?c?|m\.?s\.?c?|b\.?a|m\.?a|b\.?tech|m\.?tech|b\.?e|associate|diploma|certificate)\b/i;
+const INSTITUTION_PATTERN = /\b(university|college|institute|school|academy|polytechnic)\b/i;
+
+const cleanField = (text: string) => stripDates(text).replace(/^[\s,|–—-]+|[\s,|–—-]+$/g, '');
+
+const normalizeHeading = (text: string) =>
+  text.toLowerCase().replace(/&/g, 'and').replace(/[^a-z ]/g, '').replace(/\s+/g, ' ').trim();
+
+const splitLines = (raw: string): ResumeLine[] => {
+  const lines: ResumeLine[] = [];
+  const pattern = /[^\r\n]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(raw))) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const text = match[0].trim();
+    if (!text) continue;
+    const start = match.index + leading;
+    lines.push({ text, start, end: start + text.length });
+  }
+  return lines;
+};
+
+const isBullet = (line: ResumeLine) => BULLET_PATTERN.test(line.text);
+
+const stripBullet = (line: ResumeLine): ResumeLine => {
+  const marker = line.text.match(BULLET_PATTERN)?.[0].length ?? 0;
+  return { text: line.text.slice(marker), start: line.start + marker, end: line.end };
+};
+
+// A sentence-like line reads as a description rather than the header of a new entry
+const isDescription = (line: ResumeLine) => line.text.length > 90 || /[.!]$/.test(line.text);
+
+// Splits "Skills: React, TypeScript" into a heading and the content that follows it
+const matchHeading = (line: ResumeLine): { kind: SectionKind; label: string; rest?: ResumeLine } | undefined => {
+  if (line.text.length > 50 && !line.text.includes(':')) return undefined;
+
+  const colon = line.text.indexOf(':');
+  const label = colon >= 0 ? line.text.slice(0, colon) : line.text;
+  const kind = headingKinds.get(normalizeHeading(label));
+  if (!kind) return undefined;
+
+  const after = colon >= 0 ? line.text.slice(colon + 1) : '';
+  if (!after.trim()) return { kind, label: label.trim() };
+  const offset = line.start + colon + 1 + (after.length - after.trimStart().length);
+  return { kind, label: label.trim(), rest: { text: after.trim(), start: offset, end: line.end } };
+};
+
+const splitSections = (lines: ResumeLine[]): ResumeSection[] => {
+  const sections: ResumeSection[] = [];
+  let current: ResumeSection = {
+    kind: 'contact',
+    heading: '',
+    start: lines[0]?.start ?? 0,
+    end: lines[0]?.start ?? 0,
+    lines: []
+  };
+
+  for (const line of lines) {
+    const heading = matchHeading(line);
+    if (heading) {
+      if (current.lines.length > 0 || current.kind !== 'contact') sections.push(current);
+      current = { kind: heading.kind, heading: heading.label, start: line.start, end: line.end, lines: [] };
+      if (heading.rest) current.lines.push(heading.rest);
+      continue;
+    }
+    current.lines.push(line);
+    current.end = line.end;
+  }
+  if (current.lines.length > 0 || current.kind !== 'contact') sections.push(current);
+
+  return sections;
+};
+
+const parseEntryHeader = (header: ResumeLine[]): Pick<ExperienceEntry, 'title' | 'company' | 'dates'> => {
+  const dates = header.map(line => findDates(line.text)).find(Boolean);
+  const parts = header
+    .flatMap(line => stripDates(line.text).split(/\s+(?:at|@)\s+|\s*[|•·]\s*|\s+[-–—]\s+|,\s+/i))
+    .map(part => part.replace(/[()[\]]/g, '').trim())
+    .filter(part => part.length > 1);
+
+  return { title: parts[0], company: parts[1], dates };
+};
+
+// Groups a section into entries: non-bullet lines open a header, bullets belong to the open entry
+const groupEntries = (lines: ResumeLine[]) => {
+  const entries: { header: ResumeLine[]; bullets: ResumeLine[] }[] = [];
+  for (const line of lines) {
+    const current = entries[entries.length - 1];
+    if (isBullet(line) || (current && isDescription(line))) {
+      if (current) current.bullets.push(stripBullet(line));
+      else entries.push({ header: [], bullets: [stripBullet(line)] });
+    } else if (current && current.bullets.length === 0 && current.header.length < 3) {
+      current.header.push(line);
+    } else {
+      entries.push({ header: [line], bullets: [] });
+    }
+  }
+  return entries;
+};
+
+const parseExperience = (lines: ResumeLine[]): ExperienceEntry[] =>
+  groupEntries(lines).map(({ header, bullets }) => ({ ...parseEntryHeader(header), header, bullets }));
+
+const parseProjects = (lines: ResumeLine[]): ProjectEntry[] =>
+  groupEntries(lines).map(({ header, bullets }) => ({
+    name: header[0] ? cleanField(header[0].text) : '',
+    dates: header.map(line => findDates(line.text)).find(Boolean),
+    bullets
+  }));
+
+const parseEducation = (lines: ResumeLine[]): EducationEntry[] => {
+  const entries: EducationEntry[] = [];
+  for (const line of lines.map(stripBullet)) {
+    const current = entries[entries.length - 1];
+    const institution = INSTITUTION_PATTERN.test(line.text) ? cleanField(line.text) : undefined;
+    const degree = DEGREE_PATTERN.test(line.text) ? cleanField(line.text) : undefined;
+    const startsEntry = !current
+      || (institution && current.institution)
+      || (degree && current.degree && !institution);
+
+    const entry = startsEntry ? { lines: [] } as EducationEntry : current;
+    if (startsEntry) entries.push(entry);
+    entry.lines.push(line);
+    entry.institution ??= institution;
+    entry.degree ??= degree;
+    entry.dates ??= findDates(line.text);
+  }
+  return entries;
+};
+
+const parseList = (lines: ResumeLine[]): string[] =>
+  lines
+    .map(line => stripBullet(line).text.replace(/^[^:]{1,30}:\s*/, ''))
+    .flatMap(text => text.split(/\s*[,;|•·]\s*/))
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+
+export const parseResume = (raw: string): ResumeModel => {
+  const sections = splitSections(splitLines(raw));
+  const linesOf = (kind: SectionKind) =>
+    sections.filter(section => section.kind === kind).flatMap(section => section.lines);
+
+  return {
+    raw,
+    sections,
+    contact: extractContact(linesOf('contact')),
+    summary: linesOf('summary').map(line => line.text).join(' '),
+    experience: parseExperience(linesOf('experience')),
+    education: parseEducation(linesOf('education')),
+    skills: Array.from(new Set(parseList(linesOf('skills')))),
+    certifications: linesOf('certifications').map(line => stripBullet(line).text),
+    projects: parseProjects(linesOf('projects'))
+  };
+};
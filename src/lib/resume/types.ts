@@ -0,0 +1,80 @@
+export type SectionKind =
+  | 'contact'
+  | 'summary'
+  | 'experience'
+  | 'education'
+  | 'skills'
+  | 'certifications'
+  | 'projects'
+  | 'other';
+
+// A line of the source text with its character offsets; `end` is exclusive
+export interface ResumeLine {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ResumeSection {
+  kind: SectionKind;
+  heading: string;
+  start: number;
+  end: number;
+  lines: ResumeLine[];
+}
+
+// Values are reported as written, valid or not; validation happens in the scorer
+export interface ContactBlock {
+  lines: ResumeLine[];
+  name?: string;
+  email?: string;
+  phone?: string;
+  city?: string;
+  // State, province or country following the city
+  region?: string;
+  linkedin?: string;
+  github?: string;
+  portfolio?: string;
+  links: string[];
+}
+
+export interface DateRange {
+  // Months since year 0 (year * 12 + month index); `end` is the last month covered
+  start: number;
+  end: number;
+  // Whether the range runs to the present, e.g. "Jan 2020 – Present"
+  current: boolean;
+}
+
+export interface ExperienceEntry {
+  title?: string;
+  company?: string;
+  dates?: string;
+  header: ResumeLine[];
+  bullets: ResumeLine[];
+}
+
+export interface EducationEntry {
+  institution?: string;
+  degree?: string;
+  dates?: string;
+  lines: ResumeLine[];
+}
+
+export interface ProjectEntry {
+  name: string;
+  dates?: string;
+  bullets: ResumeLine[];
+}
+
+export interface ResumeModel {
+  raw: string;
+  sections: ResumeSection[];
+  contact: ContactBlock;
+  summary: string;
+  experience: ExperienceEntry[];
+  education: EducationEntry[];
+  skills: string[];
+  certifications: string[];
+  projects: ProjectEntry[];
+}
@@ -0,0 +1,90 @@
+import { computeReadability, splitSentences, splitWords } from '@/lib/readability';
+import { parseResume } from '@/lib/resume';
+import { extractJobRequirements, matchJobRequirements } from './job-description';
+import { GENERAL_PROFILE } from './profiles';
+import { defaultRegistry } from './registry';
+import { DEFAULT_MAX_GAP_MONTHS } from './timeline';
+import { assessTrust, withoutFlaggedText } from './trust';
+import type { ResumeAnalysis, ScoreOptions, ScoringContext } from './types';
+
+// Bump whenever a change to the scorers would change the score of an unchanged resume
+export const SCORING_VERSION = '2.21.0';
+
+export const createScoringContext = (content: string, options: ScoreOptions = {}): ScoringContext => {
+  const posting = options.jobDescription ?? '';
+  const requirements = posting.trim() ? extractJobRequirements(posting) : [];
+  const profile = options.profile ?? GENERAL_PROFILE;
+  const resume = options.resume ?? parseResume(content);
+  const words = splitWords(content);
+  const keywords = options.keywords ?? profile.keywords;
+  const trust = assessTrust(content, resume, words, keywords, options.layout);
+
+  return {
+    content,
+    text: content.toLowerCase(),
+    resume,
+    sentences: splitSentences(content),
+    words,
+    keywords,
+    profile,
+    trust,
+    spellChecker: options.spellChecker,
+    layout: options.layout,
+    maxGapMonths: options.maxGapMonths ?? DEFAULT_MAX_GAP_MONTHS,
+    jobMatch: requirements.length > 0
+      ? matchJobRequirements(withoutFlaggedText(content, trust), requirements)
+      : undefined
+  };
+};
+
+export const scoreResume = (content: string, options: ScoreOptions = {}): ResumeAnalysis => {
+  const context = createScoringContext(content, options);
+  const scorers = (options.registry ?? defaultRegistry).list();
+
+  const analysis: ResumeAnalysis = {
+    version: SCORING_VERSION,
+    overall: 0,
+    breakdown: [],
+    resume: context.resume,
+    suggestions: [],
+    profile: context.profile.id,
+    matchedKeywords: [],
+    jobMatch: context.jobMatch,
+    grammarIssues: [],
+    readabilityMetrics: computeReadability(''),
+    sectionFindings: [],
+    contactChecks: [],
+    bulletFindings: [],
+    quantification: { total: 0, quantified: 0, percentage: 0, metrics: [], unquantified: [] },
+    atsReport: { source: options.layout?.format ?? 'text', risk: 0, warnings: [] },
+    trustReport: context.trust,
+    skillEvidence: [],
+    timeline: { entries: [], issues: [] },
+    annotations: []
+  };
+
+  for (const scorer of scorers) {
+    const result = scorer.score(context);
+    analysis.breakdown.push({
+      id: scorer.id,
+      label: scorer.label,
+      weight: options.weights?.[scorer.id] ?? context.profile.weights[scorer.id] ?? scorer.weight,
+      score: Math.round(result.score)
+    });
+    analysis.suggestions.push(...(result.suggestions ?? []));
+    Object.assign(analysis, result.findings);
+    analysis.annotations.push(
+      ...(result.annotations ?? []).map(annotation => ({ ...annotation, category: scorer.id }))
+    );
+  }
+  analysis.annotations.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const totalWeight = analysis.breakdown.reduce((sum, category) => sum + category.weight, 0);
+  analysis.overall = totalWeight > 0
+    ? Math.round(
+      analysis.breakdown.reduce((sum, category) => sum + category.score * category.weight, 0) / totalWeight
+    )
+    : 0;
+
+  return analysis;
+};
@@ -0,0 +1,64 @@
+export { scoreResume, createScoringContext, SCORING_VERSION } from './engine';
+export { createScorerRegistry, defaultRegistry, DEFAULT_SCORERS } from './registry';
+export { extractJobRequirements, matchJobRequirements } from './job-description';
+export { DEFAULT_KEYWORDS, GENERAL_PROFILE, ROLE_PROFILES, findProfile } from './profiles';
+export { keywordsScorer } from './scorers/keywords';
+export { grammarScorer } from './scorers/grammar';
+export { readabilityScorer } from './scorers/readability';
+export { formattingScorer } from './scorers/formatting';
+export { structureScorer } from './scorers/structure';
+export { contactScorer, validateContact } from './scorers/contact';
+export { impactScorer } from './scorers/impact';
+export { findMetrics, quantificationScorer } from './scorers/quantification';
+export { atsScorer } from './scorers/ats';
+export { evidenceScorer, mapSkillEvidence } from './scorers/evidence';
+export { timelineScorer } from './scorers/timeline';
+export { trustScorer } from './scorers/trust';
+export { assessTrust } from './trust';
+export { buildTimeline, DEFAULT_MAX_GAP_MONTHS } from './timeline';
+
+export type {
+  Annotation,
+  AnnotationSeverity,
+  AtsReport,
+  BulletFinding,
+  BulletStrength,
+  CategoryResult,
+  CategoryScore,
+  CategoryScorer,
+  ContactCheck,
+  ContactField,
+  ExpectedSection,
+  KeywordMatch,
+  MetricKind,
+  QuantificationSummary,
+  QuantifiedMetric,
+  ReadabilityMetrics,
+  ResumeAnalysis,
+  RoleProfile,
+  ScoreBreakdown,
+  ScoreOptions,
+  ScorerFindings,
+  ScorerRegistry,
+  ScoringContext,
+  SectionFinding,
+  SectionStatus,
+  SkillEvidence,
+  SkillEvidenceStatus,
+  SkillUse,
+  TextRange,
+  Timeline,
+  TimelineEntry,
+  TimelineIssue,
+  TimelineIssueKind,
+  TrustFinding,
+  TrustIssue,
+  TrustReport
+} from './types';
+export type {
+  JobMatch,
+  JobRequirement,
+  RequirementKind,
+  RequirementMatch,
+  RequirementStatus
+} from './job-description';
@@ -0,0 +1,136 @@
+import { findSkill, matchSkills } from '@/lib/skills';
+
+export type RequirementKind = 'skill' | 'requirement';
+export type RequirementStatus = 'matched' | 'partial' | 'missing';
+
+export interface JobRequirement {
+  text: string;
+  kind: RequirementKind;
+  terms: string[];
+}
+
+export interface RequirementMatch extends JobRequirement {
+  status: RequirementStatus;
+  // Terms found in the resume; for skills, the spellings the resume uses, e.g. "k8s"
+  matchedTerms: string[];
+}
+
+export interface JobMatch {
+  score: number;
+  matched: RequirementMatch[];
+  partial: RequirementMatch[];
+  missing: RequirementMatch[];
+}
+
+// Headings that introduce the list of things a candidate must bring
+const requirementHeadings = /^(requirements|qualifications|what you('ll)? (need|bring)|must have|nice to have|preferred|skills|responsibilities|what you('ll)? do|about you)\b/i;
+
+// Phrases that mark a sentence as a requirement even outside a heading
+const requirementCues = /\b(experience (with|in)|proficien(t|cy) (in|with)|knowledge of|familiar(ity)? with|degree in|ability to|understanding of|expertise in|background in|years of)\b/i;
+
+const stopWords = new Set([
+  'a', 'an', 'and', 'or', 'the', 'of', 'to', 'in', 'on', 'for', 'with', 'as', 'at', 'by', 'is',
+  'are', 'be', 'you', 'your', 'we', 'our', 'will', 'can', 'this', 'that', 'from', 'have', 'has',
+  'plus', 'etc', 'including', 'such', 'other', 'using', 'within', 'across', 'who', 'able'
+]);
+
+// Words that appear in nearly every requirement and carry no signal on their own
+const fillerWords = new Set([
+  'experience', 'experienced', 'years', 'year', 'strong', 'excellent', 'good', 'solid', 'proven',
+  'ability', 'knowledge', 'understanding', 'familiarity', 'familiar', 'proficiency', 'proficient',
+  'skills', 'skill', 'expertise', 'background', 'working', 'work', 'required', 'preferred',
+  'must', 'nice', 'bonus', 'least', 'minimum', 'related', 'relevant', 'equivalent', 'similar'
+]);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const containsTerm = (text: string, term: string) =>
+  new RegExp(`(^|[^a-z0-9])${escapeRegExp(term)}($|[^a-z0-9])`).test(text);
+
+const stem = (word: string) => word.replace(/(ing|ed|es|s)$/, '');
+
+const significantTerms = (phrase: string): string[] => {
+  const tokens = phrase
+    .toLowerCase()
+    .split(/[^a-z0-9+#./-]+/)
+    .map(token => token.replace(/^[./-]+|[./-]+$/g, ''))
+    .filter(token => token.length > 2 || findSkill(token) !== undefined)
+    .filter(token => !stopWords.has(token) && !fillerWords.has(token) && !/^\d+$/.test(token));
+  return Array.from(new Set(tokens));
+};
+
+const cleanLine = (line: string) =>
+  line.replace(/^(?:[\s\-*•·▪◦●–—>]+|\d+[.)]\s+)/, '').trim();
+
+export const extractJobRequirements = (posting: string): JobRequirement[] => {
+  const requirements: JobRequirement[] = matchSkills(posting)
+    .map(({ skill }) => ({ text: skill.name, kind: 'skill', terms: [skill.name] }));
+
+  const seen = new Set<string>();
+  let inRequirementSection = false;
+
+  for (const rawLine of posting.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const isBullet = /^[-*•·▪◦●–—>]|^\d+[.)]\s/.test(line);
+    if (!isBullet && line.length < 60 && requirementHeadings.test(line)) {
+      inRequirementSection = true;
+      continue;
+    }
+    if (!isBullet && line.length < 40 && /:$/.test(line)) {
+      inRequirementSection = false;
+      continue;
+    }
+
+    const sentences = isBullet ? [cleanLine(line)] : line.split(/(?<=[.!?;])\s+/);
+    for (const sentence of sentences) {
+      const phrase = cleanLine(sentence).replace(/[.;]+$/, '');
+      if (phrase.length < 8 || phrase.length > 200) continue;
+      if (!(inRequirementSection && isBullet) && !requirementCues.test(phrase)) continue;
+
+      const terms = significantTerms(phrase);
+      const key = terms.join(' ');
+      if (terms.length === 0 || seen.has(key)) continue;
+      seen.add(key);
+      requirements.push({ text: phrase, kind: 'requirement', terms });
+    }
+  }
+
+  return requirements;
+};
+
+export const matchJobRequirements = (resume: string, requirements: JobRequirement[]): JobMatch => {
+  const text = resume.toLowerCase();
+  const resumeStems = new Set(significantTerms(resume).map(stem));
+  const resumeSkills = new Map(matchSkills(resume).map(match => [match.skill.name, match.forms]));
+
+  // Known skills count under any of their spellings, but never by stem: "reacted" is not React.
+  // The plain word still counts inside a longer skill, e.g. "management" in "project management".
+  const findTerm = (term: string): string[] => {
+    const skill = findSkill(term);
+    const forms = skill ? resumeSkills.get(skill.name) ?? [] : [];
+    if (forms.length > 0) return forms;
+    if (containsTerm(text, term.toLowerCase())) return [term];
+    return !skill && resumeStems.has(stem(term)) ? [term] : [];
+  };
+
+  const matches: RequirementMatch[] = requirements.map(requirement => {
+    const found = requirement.terms.map(findTerm);
+    const matchedTerms = requirement.kind === 'skill'
+      ? found.flat()
+      : requirement.terms.filter((_, index) => found[index].length > 0);
+    const ratio = found.filter(forms => forms.length > 0).length / requirement.terms.length;
+    const status: RequirementStatus = ratio >= 0.8 ? 'matched' : ratio >= 0.4 ? 'partial' : 'missing';
+    return { ...requirement, status, matchedTerms };
+  });
+
+  const matched = matches.filter(match => match.status === 'matched');
+  const partial = matches.filter(match => match.status === 'partial');
+  const missing = matches.filter(match => match.status === 'missing');
+  const score = matches.length
+    ? Math.round(((matched.length + partial.length * 0.5) / matches.length) * 100)
+    : 0;
+
+  return { score, matched, partial, missing };
+};
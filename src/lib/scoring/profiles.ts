@@ -0,0 +1,118 @@
+import { STANDARD_SECTIONS } from './scorers/structure';
+import type { ExpectedSection, RoleProfile } from './types';
+
+// Common job keywords for tech/business roles
+export const DEFAULT_KEYWORDS = [
+  'react', 'javascript', 'typescript', 'python', 'node.js', 'aws', 'docker',
+  'leadership', 'management', 'team', 'project', 'agile', 'scrum',
+  'communication', 'problem-solving', 'analytical', 'strategic',
+  'experience', 'skills', 'education', 'certification', 'achievement',
+  'development', 'design', 'implementation', 'optimization', 'collaboration'
+];
+
+const section = (kind: ExpectedSection['kind'], label: string): ExpectedSection => ({ kind, label });
+
+// The tech/business defaults the scorers used before profiles existed
+export const GENERAL_PROFILE: RoleProfile = {
+  id: 'general',
+  label: 'General',
+  keywords: DEFAULT_KEYWORDS,
+  sections: STANDARD_SECTIONS,
+  weights: {}
+};
+
+// Keywords are skill names from '@/lib/skills', so each also matches its aliases and abbreviations
+export const ROLE_PROFILES: RoleProfile[] = [
+  GENERAL_PROFILE,
+  {
+    id: 'software-engineer',
+    label: 'Software Engineer',
+    keywords: [
+      'JavaScript', 'TypeScript', 'Python', 'Java', 'SQL', 'React', 'Node.js', 'REST API', 'AWS', 'Docker',
+      'Kubernetes', 'CI/CD', 'Git', 'Testing', 'Microservices', 'Agile', 'Problem Solving', 'Collaboration'
+    ],
+    sections: STANDARD_SECTIONS,
+    weights: { keywords: 1.5, quantification: 1.25, readability: 0.75 }
+  },
+  {
+    id: 'data-scientist',
+    label: 'Data Scientist',
+    keywords: [
+      'Python', 'SQL', 'Statistics', 'Machine Learning', 'Deep Learning', 'Pandas', 'Scikit-learn',
+      'TensorFlow', 'PyTorch', 'Apache Spark', 'NLP', 'Data Visualization', 'Data Analysis', 'A/B Testing',
+      'Tableau', 'Communication'
+    ],
+    sections: [
+      ...STANDARD_SECTIONS,
+      section('projects', 'Projects')
+    ],
+    weights: { keywords: 1.5, quantification: 1.25, readability: 0.75 }
+  },
+  {
+    id: 'product-manager',
+    label: 'Product Manager',
+    keywords: [
+      'Product Strategy', 'Roadmapping', 'Product Discovery', 'User Stories', 'Prioritization', 'A/B Testing',
+      'KPIs', 'Market Research', 'Go-to-Market', 'Stakeholder Management', 'Data Analysis', 'Agile', 'Jira',
+      'Leadership', 'Communication', 'Collaboration'
+    ],
+    sections: STANDARD_SECTIONS,
+    // Product work is judged on outcomes, so achievements and their numbers count for more
+    weights: { impact: 1.5, quantification: 1.5 }
+  },
+  {
+    id: 'registered-nurse',
+    label: 'Registered Nurse',
+    keywords: [
+      'RN License', 'BLS', 'ACLS', 'Patient Care', 'Patient Assessment', 'Medication Administration',
+      'Electronic Health Records', 'Care Planning', 'Triage', 'Infection Control', 'Patient Education',
+      'IV Therapy', 'Communication', 'Collaboration'
+    ],
+    sections: [
+      section('contact', 'Contact'),
+      section('summary', 'Summary'),
+      section('certifications', 'Licenses & Certifications'),
+      section('experience', 'Clinical Experience'),
+      section('education', 'Education'),
+      section('skills', 'Skills')
+    ],
+    // Clinical work rarely reduces to numbers; licenses and a clear layout matter more
+    weights: { keywords: 1.25, structure: 1.25, impact: 0.75, quantification: 0.5 }
+  },
+  {
+    id: 'financial-analyst',
+    label: 'Financial Analyst',
+    keywords: [
+      'Financial Modeling', 'Forecasting', 'Budgeting', 'Variance Analysis', 'Valuation', 'Financial Reporting',
+      'GAAP', 'Microsoft Excel', 'SQL', 'Power BI', 'Tableau', 'Data Analysis', 'Analytical Skills',
+      'Stakeholder Management', 'Communication'
+    ],
+    sections: [
+      ...STANDARD_SECTIONS,
+      section('certifications', 'Certifications')
+    ],
+    weights: { quantification: 1.5, grammar: 1.25 }
+  },
+  {
+    id: 'ux-designer',
+    label: 'UX Designer',
+    keywords: [
+      'User Research', 'Usability Testing', 'Wireframing', 'Prototyping', 'Interaction Design',
+      'Information Architecture', 'Design Systems', 'Accessibility', 'User Flows', 'Figma', 'Adobe XD', 'HTML',
+      'CSS', 'Collaboration', 'Communication'
+    ],
+    sections: [
+      section('contact', 'Contact'),
+      section('summary', 'Summary'),
+      section('experience', 'Experience'),
+      section('projects', 'Portfolio Projects'),
+      section('education', 'Education'),
+      section('skills', 'Skills')
+    ],
+    weights: { keywords: 1.25, formatting: 1.25, quantification: 0.75 }
+  }
+];
+
+// Unknown ids fall back to the general profile, e.g. one saved before a profile was removed
+export const findProfile = (id: string): RoleProfile =>
+  ROLE_PROFILES.find(profile => profile.id === id) ?? GENERAL_PROFILE;
@@ -0,0 +1,21 @@
+import type { TextRange } from './types';
+
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Every case-insensitive, whole-word occurrence of `term` in `content`
+export const findTermRanges = (content: string, term: string): TextRange[] => {
+  const pattern = new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(term)}(?![A-Za-z0-9])`, 'gi');
+  return Array.from(content.matchAll(pattern), match => ({
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+};
+
+// First occurrence of `text` in `content` at or after `from`. Extracted text and pdf.js runs may differ
+// in whitespace, so this matches across any run of it.
+export const locateText = (content: string, text: string, from = 0): TextRange | undefined => {
+  const words = text.split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) return undefined;
+  const match = content.slice(from).match(new RegExp(words.join('\\s+')));
+  return match ? { start: from + match.index!, end: from + match.index! + match[0].length } : undefined;
+};
@@ -0,0 +1,52 @@
+import { keywordsScorer } from './scorers/keywords';
+import { grammarScorer } from './scorers/grammar';
+import { readabilityScorer } from './scorers/readability';
+import { formattingScorer } from './scorers/formatting';
+import { structureScorer } from './scorers/structure';
+import { contactScorer } from './scorers/contact';
+import { impactScorer } from './scorers/impact';
+import { quantificationScorer } from './scorers/quantification';
+import { atsScorer } from './scorers/ats';
+import { evidenceScorer } from './scorers/evidence';
+import { timelineScorer } from './scorers/timeline';
+import { trustScorer } from './scorers/trust';
+import type { CategoryScorer, ScorerRegistry } from './types';
+
+export const createScorerRegistry = (scorers: CategoryScorer[] = []): ScorerRegistry => {
+  const entries = new Map<string, CategoryScorer>();
+
+  const registry: ScorerRegistry = {
+    // Registering an id that already exists replaces the scorer but keeps its position
+    register: (scorer) => {
+      if (scorer.weight < 0) {
+        throw new Error(`Scorer "${scorer.id}" must have a non-negative weight`);
+      }
+      entries.set(scorer.id, scorer);
+    },
+    unregister: (id) => {
+      entries.delete(id);
+    },
+    get: (id) => entries.get(id),
+    list: () => Array.from(entries.values())
+  };
+
+  scorers.forEach(registry.register);
+  return registry;
+};
+
+export const DEFAULT_SCORERS: CategoryScorer[] = [
+  formattingScorer,
+  atsScorer,
+  structureScorer,
+  contactScorer,
+  keywordsScorer,
+  impactScorer,
+  quantificationScorer,
+  grammarScorer,
+  readabilityScorer,
+  evidenceScorer,
+  timelineScorer,
+  trustScorer
+];
+
+export const defaultRegistry = createScorerRegistry(DEFAULT_SCORERS);
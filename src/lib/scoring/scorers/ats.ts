@@ -0,0 +1,75 @@
+// The analyzer on its own: the layout barrel also pulls in the PDF and OCR readers, whose worker and
+// model imports only a Vite build can resolve
+import { analyzeLayout } from '@/lib/layout/analyze';
+import { GLYPH_BULLETS } from '@/lib/layout/reading-order';
+import type { AtsRisk, AtsWarning } from '@/lib/layout';
+import { locateText } from '../ranges';
+import type { CategoryScorer } from '../types';
+
+// Parse-risk points per warning; a scanned page can hide the whole resume
+const RISK_POINTS: Record<AtsRisk, number> = {
+  'scanned-page': 60,
+  'multi-column': 25,
+  'contact-in-header': 25,
+  table: 20,
+  'text-box': 20,
+  'unreadable-text': 15,
+  'header-footer': 10,
+  'image-text': 10,
+  font: 5
+};
+
+const RISK_ADVICE: Record<AtsRisk, string> = {
+  'scanned-page': 'Export the resume as a text-based PDF instead of a scan',
+  'contact-in-header': 'Move your contact details out of the page header into the body of the page',
+  'multi-column': 'Switch to a single-column layout so an ATS reads sections in order',
+  table: 'Replace tables with plain lines of text',
+  'text-box': 'Move text out of text boxes into the body of the document',
+  'header-footer': 'Move text out of the page header and footer into the body of the page',
+  'image-text': 'Put any text that is inside images into the document as plain text',
+  font: 'Use a standard font such as Arial, Calibri or Georgia',
+  'unreadable-text': 'Replace icons and symbol glyphs with plain text'
+};
+
+const UNREADABLE = /[\uE000-\uF8FF\uFFFD]/g;
+// Two or more tab stops or wide space runs on a line usually mean text was laid out in columns
+const TABULAR_LINE = /\S(?:\t+|[ ]{4,})\S.*\S(?:\t+|[ ]{4,})\S/;
+
+// Without page geometry only what survives in the text can be checked
+const analyzeText = (content: string): AtsWarning[] => {
+  const warnings: AtsWarning[] = [];
+  const tabular = content.split('\n').filter(line => TABULAR_LINE.test(line)).length;
+  if (tabular >= 3) {
+    warnings.push({ risk: 'table', message: `${tabular} lines are laid out in tab-aligned columns; an ATS may merge or drop cells` });
+  }
+  // Symbol and Wingdings bullets sit in the private-use range too, but read as ordinary bullets
+  const unreadable = content.replace(GLYPH_BULLETS, '').match(UNREADABLE)?.length ?? 0;
+  if (unreadable > 0) {
+    warnings.push({
+      risk: 'unreadable-text',
+      message: `${unreadable} character${unreadable === 1 ? '' : 's'} cannot be decoded, such as icons or symbol glyphs`
+    });
+  }
+  return warnings;
+};
+
+export const atsScorer: CategoryScorer = {
+  id: 'ats',
+  label: 'ATS Compatibility',
+  weight: 1,
+  score: ({ content, layout }) => {
+    const warnings = layout ? analyzeLayout(layout) : analyzeText(content);
+    const risk = Math.min(warnings.reduce((sum, warning) => sum + RISK_POINTS[warning.risk], 0), 100);
+    const risks = new Set(warnings.map(warning => warning.risk));
+
+    return {
+      score: 100 - risk,
+      suggestions: Array.from(risks, kind => RISK_ADVICE[kind]),
+      findings: { atsReport: { source: layout?.format ?? 'text', risk, warnings } },
+      annotations: warnings.flatMap(warning => {
+        const range = warning.text ? locateText(content, warning.text) : undefined;
+        return range ? [{ ...range, severity: 'warning' as const, message: warning.message }] : [];
+      })
+    };
+  }
+};
@@ -0,0 +1,137 @@
+import type { ContactBlock } from '@/lib/resume';
+import type { CategoryScorer, ContactCheck, ContactField, TextRange } from '../types';
+
+const VALID_EMAIL = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}$/;
+const UNPROFESSIONAL_HANDLE = /sexy|hottie|babe|cutie|princess|lover|gamer|killer|stoner|swag|partyanimal|xoxo|(^|\D)(420|69)(\D|$)/i;
+const LINKEDIN_PROFILE = /linkedin\.com\/(in|pub)\/[\w-]{3,}/i;
+const GITHUB_PROFILE = /github\.com\/[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})\/?$/i;
+
+const REQUIRED_PENALTY = 25;
+const OPTIONAL_PENALTY = 10;
+
+const labels: Record<ContactField, string> = {
+  name: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  location: 'Location',
+  linkedin: 'LinkedIn',
+  github: 'GitHub',
+  portfolio: 'Portfolio'
+};
+
+const REQUIRED_FIELDS: ContactField[] = ['name', 'email', 'phone', 'location'];
+
+const pass = (field: ContactField, value: string, message = `${labels[field]} looks good`): ContactCheck =>
+  ({ field, label: labels[field], value, status: 'pass', message });
+
+const fail = (field: ContactField, value: string, message: string): ContactCheck =>
+  ({ field, label: labels[field], value, status: 'fail', message });
+
+const missing = (field: ContactField): ContactCheck => ({
+  field,
+  label: labels[field],
+  status: 'missing',
+  message: REQUIRED_FIELDS.includes(field)
+    ? `No ${labels[field].toLowerCase()} found in the resume header`
+    : `Optional: add your ${labels[field]} link`
+});
+
+const checkName = (name?: string): ContactCheck => {
+  if (!name) return missing('name');
+  const words = name.split(/\s+/).filter(Boolean);
+  if (words.length < 2) return fail('name', name, 'Use your full first and last name');
+  if (name === name.toLowerCase()) return fail('name', name, 'Capitalize your name');
+  return pass('name', name);
+};
+
+const checkEmail = (email?: string): ContactCheck => {
+  if (!email) return missing('email');
+  if (!VALID_EMAIL.test(email) || email.includes('..')) {
+    return fail('email', email, 'Email address is malformed');
+  }
+  const handle = email.split('@')[0];
+  if (UNPROFESSIONAL_HANDLE.test(handle)) {
+    return fail('email', email, 'Use a professional email address, ideally based on your name');
+  }
+  return pass('email', email);
+};
+
+const checkPhone = (phone?: string): ContactCheck => {
+  if (!phone) return missing('phone');
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length < 7 || digits.length > 15) {
+    return fail('phone', phone, 'Phone number has an invalid number of digits');
+  }
+  if (!/^(\+|00)/.test(phone.trim())) {
+    return fail('phone', phone, 'Add the country code (e.g. +1) so international recruiters can call you');
+  }
+  return pass('phone', phone);
+};
+
+const checkLocation = ({ city, region }: ContactBlock): ContactCheck => {
+  if (!city) return missing('location');
+  return pass('location', region ? `${city}, ${region}` : city);
+};
+
+const checkProfile = (field: ContactField, value: string | undefined, pattern: RegExp, hint: string): ContactCheck => {
+  if (!value) return missing(field);
+  return pattern.test(value) ? pass(field, value) : fail(field, value, hint);
+};
+
+// Locates a value inside the header lines it was extracted from
+const locate = (contact: ContactBlock, value?: string): Partial<TextRange> => {
+  if (!value) return {};
+  for (const line of contact.lines) {
+    const index = line.text.indexOf(value);
+    if (index >= 0) return { start: line.start + index, end: line.start + index + value.length };
+  }
+  // A location reassembled from its parts may not appear verbatim; fall back to the city
+  return contact.city && value !== contact.city && value.startsWith(contact.city)
+    ? locate(contact, contact.city)
+    : {};
+};
+
+export const validateContact = (contact: ContactBlock): ContactCheck[] => [
+  checkName(contact.name),
+  checkEmail(contact.email),
+  checkPhone(contact.phone),
+  checkLocation(contact),
+  checkProfile('linkedin', contact.linkedin, LINKEDIN_PROFILE, 'LinkedIn URL should point to your profile (linkedin.com/in/...)'),
+  checkProfile('github', contact.github, GITHUB_PROFILE, 'GitHub URL should point to your profile (github.com/username)'),
+  checkProfile('portfolio', contact.portfolio, /\.[a-z]{2,}/i, 'Portfolio URL looks incomplete')
+].map(check => ({ ...check, ...locate(contact, check.value) }));
+
+export const contactScorer: CategoryScorer = {
+  id: 'contact',
+  label: 'Contact',
+  weight: 1,
+  score: ({ resume }) => {
+    const contactChecks = validateContact(resume.contact);
+
+    const penalty = contactChecks.reduce((sum, check) => {
+      if (check.status === 'pass') return sum;
+      if (REQUIRED_FIELDS.includes(check.field)) return sum + REQUIRED_PENALTY;
+      return check.status === 'fail' ? sum + OPTIONAL_PENALTY : sum;
+    }, 0);
+
+    const problems = contactChecks.filter(check =>
+      check.status === 'fail' || (check.status === 'missing' && REQUIRED_FIELDS.includes(check.field))
+    );
+
+    return {
+      score: Math.max(100 - penalty, 0),
+      suggestions: problems.length > 0
+        ? [`Fix your contact details: ${problems.map(check => check.label.toLowerCase()).join(', ')}`]
+        : [],
+      findings: { contactChecks },
+      annotations: contactChecks
+        .filter(check => check.status === 'fail' && check.start !== undefined)
+        .map(check => ({
+          start: check.start!,
+          end: check.end!,
+          severity: 'error' as const,
+          message: check.message
+        }))
+    };
+  }
+};
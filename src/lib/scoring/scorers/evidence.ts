@@ -0,0 +1,154 @@
+import { parseDateRange, type DateRange, type ResumeLine, type ResumeModel } from '@/lib/resume';
+import { matchSkills, skillCategories, SKILLS, type Skill } from '@/lib/skills';
+import { withoutFlaggedText } from '../trust';
+import type { CategoryScorer, SkillEvidence, SkillUse } from '../types';
+
+// Share of listed skills backed by a bullet that earns a full score; soft skills are rarely spelled out
+const TARGET_SHARE = 0.6;
+const NO_CLAIMS_SCORE = 60;
+// Skills list items longer than this are sentences rather than skill names
+const MAX_SKILL_WORDS = 3;
+
+interface EvidenceLine {
+  line: ResumeLine;
+  source: string;
+  dates?: DateRange;
+}
+
+const evidenceLines = (resume: ResumeModel, today: Date): EvidenceLine[] => [
+  ...resume.experience.flatMap(entry => {
+    const source = [entry.title, entry.company].filter(Boolean).join(', ') || 'Experience';
+    const dates = entry.dates ? parseDateRange(entry.dates, today) : undefined;
+    return entry.bullets.map(line => ({ line, source, dates }));
+  }),
+  ...resume.projects.flatMap(project => {
+    const dates = project.dates ? parseDateRange(project.dates, today) : undefined;
+    return project.bullets.map(line => ({ line, source: project.name || 'Project', dates }));
+  })
+];
+
+// Skills section items as skills; an item the taxonomy doesn't know is kept as a skill of its own
+const claimedSkills = (resume: ResumeModel): Skill[] => {
+  const skills = new Map<string, Skill>();
+  for (const item of resume.skills) {
+    const matches = matchSkills(item, SKILLS);
+    const found = matches.length > 0
+      ? matches.map(match => match.skill)
+      : item.split(/\s+/).length <= MAX_SKILL_WORDS ? [{ name: item }] : [];
+    for (const skill of found) {
+      if (!skills.has(skill.name.toLowerCase())) skills.set(skill.name.toLowerCase(), skill);
+    }
+  }
+  return Array.from(skills.values());
+};
+
+// Years covered by the date ranges, to one decimal place, counting overlapping roles once
+const yearsOf = (ranges: DateRange[]): number | undefined => {
+  if (ranges.length === 0) return undefined;
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  let months = 0;
+  let covered = -Infinity;
+  for (const { start, end } of sorted) {
+    const from = Math.max(start, covered + 1);
+    if (end >= from) months += end - from + 1;
+    covered = Math.max(covered, end);
+  }
+  return Math.round((months / 12) * 10) / 10;
+};
+
+// Maps each skill listed in the Skills section to the experience and project bullets that use it, and
+// adds skills the bullets use without the Skills section listing them. `content` is the text the
+// bullets are read from, e.g. with flagged keyword blocks blanked out.
+export const mapSkillEvidence = (
+  resume: ResumeModel,
+  content = resume.raw,
+  today = new Date()
+): SkillEvidence[] => {
+  const claimed = claimedSkills(resume);
+  const lines = evidenceLines(resume, today);
+  const uses = new Map<Skill, { uses: SkillUse[]; dates: DateRange[] }>();
+
+  for (const { line, source, dates } of lines) {
+    const text = content.slice(line.start, line.end);
+    for (const match of matchSkills(text, [...claimed, ...SKILLS])) {
+      const entry = uses.get(match.skill) ?? { uses: [], dates: [] };
+      entry.uses.push({ start: line.start, end: line.end, source, text: line.text });
+      if (dates && !entry.dates.includes(dates)) entry.dates.push(dates);
+      uses.set(match.skill, entry);
+    }
+  }
+
+  const evidence = (skill: Skill, listed: boolean): SkillEvidence => {
+    const entry = uses.get(skill);
+    return {
+      skill: skill.name,
+      category: skillCategories(skill)[0]?.label,
+      status: !listed ? 'unlisted' : entry ? 'supported' : 'unsupported',
+      uses: entry?.uses ?? [],
+      years: entry ? yearsOf(entry.dates) : undefined
+    };
+  };
+
+  return [
+    ...claimed.map(skill => evidence(skill, true)),
+    ...Array.from(uses.keys()).filter(skill => !claimed.includes(skill)).map(skill => evidence(skill, false))
+  ];
+};
+
+const listOf = (names: string[]) =>
+  names.length > 5 ? `${names.slice(0, 5).join(', ')} and ${names.length - 5} more` : names.join(', ');
+
+export const evidenceScorer: CategoryScorer = {
+  id: 'evidence',
+  label: 'Skill Evidence',
+  weight: 1,
+  score: ({ content, resume, trust }) => {
+    const skillEvidence = mapSkillEvidence(resume, withoutFlaggedText(content, trust));
+    const listed = skillEvidence.filter(entry => entry.status !== 'unlisted');
+    const unsupported = listed.filter(entry => entry.status === 'unsupported');
+    const unlisted = skillEvidence.filter(entry => entry.status === 'unlisted');
+
+    if (listed.length === 0) {
+      return {
+        score: NO_CLAIMS_SCORE,
+        // A missing Skills section is already raised by the structure check; name what it could list
+        suggestions: unlisted.length > 0
+          ? [`List the skills your experience shows in a Skills section, such as ${listOf(unlisted.map(entry => entry.skill))}`]
+          : [],
+        findings: { skillEvidence }
+      };
+    }
+
+    const share = (listed.length - unsupported.length) / listed.length;
+    const suggestions: string[] = [];
+    if (unsupported.length > 0) {
+      suggestions.push(
+        `${unsupported.length} of ${listed.length} listed skills appear in no experience or project bullet: ` +
+        `${listOf(unsupported.map(entry => entry.skill))}; show where you used them or drop them`
+      );
+    }
+    if (unlisted.length > 0) {
+      suggestions.push(`Your experience shows skills your Skills section leaves out: ${listOf(unlisted.map(entry => entry.skill))}`);
+    }
+
+    // Point at each unsupported skill where the Skills section lists it
+    const skillLines = resume.sections.filter(section => section.kind === 'skills').flatMap(section => section.lines);
+    const unsupportedNames = new Set(unsupported.map(entry => entry.skill));
+    const unsupportedSkills = claimedSkills(resume).filter(skill => unsupportedNames.has(skill.name));
+    const annotations = skillLines.flatMap(line =>
+      matchSkills(line.text, unsupportedSkills).flatMap(match => match.ranges.map(range => ({
+        start: line.start + range.start,
+        end: line.start + range.end,
+        severity: 'info' as const,
+        message: `No experience or project bullet shows "${match.skill.name}" in use`
+      })))
+    );
+
+    return {
+      score: Math.min(share / TARGET_SHARE, 1) * 100,
+      suggestions,
+      findings: { skillEvidence },
+      annotations
+    };
+  }
+};
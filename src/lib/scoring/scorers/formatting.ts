@@ -0,0 +1,22 @@
+import type { CategoryScorer } from '../types';
+
+export const formattingScorer: CategoryScorer = {
+  id: 'formatting',
+  label: 'Formatting',
+  weight: 1,
+  // Dates are checked entry by entry in the timeline category
+  score: ({ content, resume }) => {
+    let score = 100;
+    if (content.length < 200) score -= 30;
+    if (content.length > 5000) score -= 20;
+    if (!resume.contact.email) score -= 10;
+    score = Math.max(score, 0);
+
+    return {
+      score,
+      suggestions: score < 80
+        ? ['Ensure proper formatting with consistent structure and contact information']
+        : []
+    };
+  }
+};
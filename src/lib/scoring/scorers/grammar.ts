@@ -0,0 +1,63 @@
+// Not the grammar barrel, which also holds the dictionary loader and its Vite-only "?raw" imports
+import { checkGrammar } from '@/lib/grammar/checker';
+import type { GrammarRule } from '@/lib/grammar';
+import type { AnnotationSeverity, CategoryScorer } from '../types';
+
+// Points deducted per issue; spacing is capped so a badly extracted PDF is not wiped out
+const RULE_PENALTIES: Record<GrammarRule, number> = {
+  'subject-verb': 8,
+  spelling: 5,
+  'repeated-word': 5,
+  'lowercase-i': 5,
+  tense: 4,
+  'tech-capitalization': 3,
+  spacing: 1
+};
+const MAX_SPACING_PENALTY = 5;
+
+const RULE_SEVERITY: Record<GrammarRule, AnnotationSeverity> = {
+  'subject-verb': 'error',
+  spelling: 'error',
+  'repeated-word': 'error',
+  'lowercase-i': 'error',
+  tense: 'warning',
+  'tech-capitalization': 'warning',
+  spacing: 'info'
+};
+
+export const grammarScorer: CategoryScorer = {
+  id: 'grammar',
+  label: 'Grammar',
+  weight: 1,
+  score: ({ content, resume, spellChecker }) => {
+    const grammarIssues = checkGrammar(content, { resume, spellChecker });
+
+    const spacing = grammarIssues.filter(issue => issue.rule === 'spacing').length;
+    const penalty = grammarIssues
+      .filter(issue => issue.rule !== 'spacing')
+      .reduce((sum, issue) => sum + RULE_PENALTIES[issue.rule], 0)
+      + Math.min(spacing * RULE_PENALTIES.spacing, MAX_SPACING_PENALTY);
+    const score = Math.max(100 - penalty, 0);
+
+    const suggestions: string[] = [];
+    if (score < 80) {
+      suggestions.push('Review grammar and punctuation throughout the document');
+    }
+    if (grammarIssues.some(issue => issue.rule === 'tense')) {
+      suggestions.push('Write past roles in the past tense and keep each role in a single tense');
+    }
+
+    return {
+      score,
+      suggestions,
+      findings: { grammarIssues },
+      annotations: grammarIssues.map(issue => ({
+        start: issue.start,
+        end: issue.end,
+        severity: RULE_SEVERITY[issue.rule],
+        message: issue.message,
+        suggestion: issue.suggestion
+      }))
+    };
+  }
+};
@@ -0,0 +1,138 @@
+import { FILLER_PHRASES, PASSIVE_VOICE, WEAK_PHRASES } from '@/lib/grammar/phrases';
+import { ACTION_VERBS, toBaseForm, toPastTense } from '@/lib/grammar/verbs';
+import type { ResumeLine } from '@/lib/resume';
+import { findTermRanges } from '../ranges';
+import type { Annotation, BulletFinding, BulletStrength, CategoryScorer } from '../types';
+
+// Credit per bullet by strength; each filler phrase costs a little on top
+const STRENGTH_CREDIT: Record<BulletStrength, number> = {
+  strong: 1,
+  other: 0.6,
+  weak: 0.3,
+  passive: 0.3
+};
+const FILLER_COST = 0.1;
+const NO_BULLETS_SCORE = 60;
+
+const actionVerbs = new Set(ACTION_VERBS);
+// Longest first so "helped with" wins over "helped"
+const weakPhrases = Object.keys(WEAK_PHRASES).sort((a, b) => b.length - a.length);
+
+const capitalize = (word: string) => word[0].toUpperCase() + word.slice(1);
+
+type BulletAnnotation = Omit<Annotation, 'category'>;
+
+const analyzeBullet = (bullet: ResumeLine): { finding: BulletFinding; annotations: BulletAnnotation[] } => {
+  const lower = bullet.text.toLowerCase();
+  const verb = bullet.text.match(/^[A-Za-z]+/)?.[0];
+  const issues: string[] = [];
+  const suggestedVerbs: string[] = [];
+  const annotations: BulletAnnotation[] = [];
+
+  const weak = weakPhrases.find(phrase => lower === phrase || lower.startsWith(`${phrase} `));
+  const passive = Array.from(bullet.text.matchAll(PASSIVE_VOICE))[0];
+  const base = verb && toBaseForm(verb);
+
+  let strength: BulletStrength;
+  if (weak) {
+    strength = 'weak';
+    const alternatives = WEAK_PHRASES[weak].map(alternative => capitalize(toPastTense(alternative)));
+    suggestedVerbs.push(...alternatives);
+    issues.push(`"${bullet.text.slice(0, weak.length)}" describes a duty, not a result`);
+    annotations.push({
+      start: bullet.start,
+      end: bullet.start + weak.length,
+      severity: 'warning',
+      message: `"${bullet.text.slice(0, weak.length)}" is weak; lead with what you achieved`,
+      suggestion: alternatives.join(', ')
+    });
+  } else if (passive && (passive.index === 0 || !base || !actionVerbs.has(base))) {
+    strength = 'passive';
+    const participle = toBaseForm(passive[1]);
+    if (participle) suggestedVerbs.push(capitalize(toPastTense(participle)));
+    issues.push('Written in the passive voice');
+    annotations.push({
+      start: bullet.start + passive.index!,
+      end: bullet.start + passive.index! + passive[0].length,
+      severity: 'warning',
+      message: 'Passive voice hides who did the work; start with an action verb',
+      suggestion: suggestedVerbs[0]
+    });
+  } else if (base && actionVerbs.has(base)) {
+    strength = 'strong';
+  } else {
+    strength = 'other';
+    issues.push('Does not start with an action verb');
+    annotations.push({
+      start: bullet.start,
+      end: bullet.start + (verb?.length ?? bullet.text.length),
+      severity: 'info',
+      message: 'Start this bullet with an action verb'
+    });
+  }
+
+  const fillers = Object.entries(FILLER_PHRASES).flatMap(([phrase, replacement]) =>
+    findTermRanges(bullet.text, phrase).map(range => ({ ...range, phrase, replacement }))
+  );
+  fillers.forEach(({ start, end, phrase, replacement }) => {
+    issues.push(replacement ? `Replace "${phrase}" with "${replacement}"` : `Remove "${phrase}"`);
+    annotations.push({
+      start: bullet.start + start,
+      end: bullet.start + end,
+      severity: 'info',
+      message: replacement ? `"${phrase}" is filler; use "${replacement}"` : `"${phrase}" adds nothing; remove it`,
+      suggestion: replacement
+    });
+  });
+
+  return {
+    finding: { ...bullet, verb, strength, fillers: fillers.length, issues, suggestedVerbs },
+    annotations
+  };
+};
+
+export const impactScorer: CategoryScorer = {
+  id: 'impact',
+  label: 'Impact Language',
+  weight: 1,
+  score: ({ resume }) => {
+    const bullets = [
+      ...resume.experience.flatMap(entry => entry.bullets),
+      ...resume.projects.flatMap(project => project.bullets)
+    ].filter(bullet => /[A-Za-z]/.test(bullet.text));
+
+    if (bullets.length === 0) {
+      return {
+        score: NO_BULLETS_SCORE,
+        suggestions: ['Describe your experience in bullet points that start with action verbs'],
+        findings: { bulletFindings: [] }
+      };
+    }
+
+    const results = bullets.map(analyzeBullet);
+    const bulletFindings = results.map(result => result.finding);
+    const credit = bulletFindings.reduce(
+      (sum, finding) => sum + Math.max(STRENGTH_CREDIT[finding.strength] - finding.fillers * FILLER_COST, 0),
+      0
+    );
+    const score = (credit / bulletFindings.length) * 100;
+
+    const suggestions: string[] = [];
+    if (bulletFindings.some(finding => finding.strength === 'weak')) {
+      suggestions.push('Replace phrases like "responsible for" and "worked on" with strong action verbs');
+    }
+    if (bulletFindings.some(finding => finding.strength === 'passive')) {
+      suggestions.push('Rewrite passive bullets in the active voice');
+    }
+    if (bulletFindings.filter(finding => finding.strength === 'other').length > bulletFindings.length / 3) {
+      suggestions.push('Start each bullet with an action verb such as "Led", "Built" or "Improved"');
+    }
+
+    return {
+      score,
+      suggestions,
+      findings: { bulletFindings },
+      annotations: results.flatMap(result => result.annotations)
+    };
+  }
+};
@@ -0,0 +1,77 @@
+import { matchSkills, resolveSkills, skillCategories, type SkillMatch } from '@/lib/skills';
+import { GENERAL_PROFILE } from '../profiles';
+import { withoutFlaggedText } from '../trust';
+import type { CategoryResult, CategoryScorer, KeywordMatch } from '../types';
+
+const toKeywordMatch = ({ skill, forms }: SkillMatch): KeywordMatch => ({
+  keyword: skill.name,
+  forms,
+  category: skillCategories(skill)[0]?.label
+});
+
+const keywordAnnotations = (matches: SkillMatch[], message: string): CategoryResult['annotations'] =>
+  matches.flatMap(match =>
+    match.ranges.map(range => ({ ...range, severity: 'info' as const, message }))
+  );
+
+export const keywordsScorer: CategoryScorer = {
+  id: 'keywords',
+  label: 'Keywords',
+  weight: 1,
+  score: ({ content: original, keywords, profile, trust, jobMatch }) => {
+    // Hidden text and pasted keyword blocks earn nothing
+    const content = withoutFlaggedText(original, trust);
+
+    // Score against the posting's requirements when one is provided
+    if (jobMatch) {
+      const suggestions: string[] = [];
+      const missingSkills = jobMatch.missing.filter(match => match.kind === 'skill');
+      if (missingSkills.length > 0) {
+        suggestions.push(
+          `Add the skills this posting asks for: ${missingSkills.slice(0, 5).map(match => match.text).join(', ')}`
+        );
+      }
+      if (jobMatch.partial.length > 0) {
+        suggestions.push('Strengthen partially matched requirements with concrete examples from your experience');
+      }
+
+      const matchedSkills = resolveSkills(jobMatch.matched.filter(match => match.kind === 'skill').map(match => match.text));
+      const matches = matchSkills(content, matchedSkills);
+      return {
+        score: jobMatch.score,
+        suggestions,
+        findings: { matchedKeywords: matches.map(toKeywordMatch) },
+        annotations: keywordAnnotations(matches, 'Skill requested in the job description')
+      };
+    }
+
+    const skills = resolveSkills(keywords);
+    const matches = matchSkills(content, skills);
+    const matchedKeywords = matches.map(toKeywordMatch);
+    const score = skills.length ? Math.min((matches.length / skills.length) * 100, 100) : 0;
+
+    // Name the missing skills when scoring against a role's own list rather than the generic one
+    const roleKeywords = profile !== GENERAL_PROFILE && keywords === profile.keywords;
+    const missing = skills.filter(skill => !matches.some(match => match.skill === skill));
+
+    const suggestions: string[] = [];
+    if (score < 60) {
+      suggestions.push(roleKeywords
+        ? `Add skills ${profile.label} resumes are expected to show: ${missing.slice(0, 5).map(skill => skill.name).join(', ')}`
+        : 'Include more relevant industry keywords and technical skills');
+    }
+    if (matchedKeywords.length < 5 && !roleKeywords) {
+      suggestions.push('Add more specific technical skills and industry-relevant terms');
+    }
+
+    return {
+      score,
+      suggestions,
+      findings: { matchedKeywords },
+      annotations: keywordAnnotations(
+        matches,
+        roleKeywords ? `Skill expected on a ${profile.label} resume` : 'Matches a common job keyword'
+      )
+    };
+  }
+};
@@ -0,0 +1,84 @@
+import type { ResumeLine } from '@/lib/resume';
+import type { CategoryScorer, MetricKind, QuantifiedMetric } from '../types';
+
+// Share of quantified bullets that earns a full score; not every bullet needs a number
+const TARGET_SHARE = 0.6;
+const NO_BULLETS_SCORE = 60;
+
+const SCALE = '(?:k|m|mm|b|bn|thousand|million|billion)\\b';
+const NUMBER = '\\d[\\d,]*(?:\\.\\d+)?';
+
+// Earlier kinds win where patterns overlap, so "$2M" is currency rather than a bare number
+const METRIC_PATTERNS: { kind: MetricKind; pattern: RegExp }[] = [
+  { kind: 'currency', pattern: new RegExp(`(?:[$€£₹]\\s?${NUMBER}\\s?(?:${SCALE})?\\+?|\\b${NUMBER}\\s?(?:${SCALE})?\\s?(?:usd|eur|gbp|dollars)\\b)`, 'gi') },
+  { kind: 'percentage', pattern: new RegExp(`${NUMBER}\\s?(?:%|percent\\b)`, 'gi') },
+  { kind: 'multiplier', pattern: new RegExp(`\\b${NUMBER}\\s?x\\b`, 'gi') },
+  { kind: 'scale', pattern: new RegExp(`\\b${NUMBER}\\s?${SCALE}\\+?|\\b(?:dozens|hundreds|thousands|millions|billions)\\b`, 'gi') },
+  { kind: 'scale', pattern: /\b(?:team|group|staff|department|class|cohort) of (?:\d+|two|three|four|five|six|seven|eight|nine|ten|twelve|fifteen|twenty)\b/gi },
+  { kind: 'number', pattern: new RegExp(`\\b${NUMBER}\\b\\+?`, 'gi') }
+];
+
+// Years mentioned in a bullet are not achievements
+const isDateLike = (text: string) => /^(?:19|20)\d{2}$/.test(text);
+
+export const findMetrics = (line: ResumeLine): QuantifiedMetric[] => {
+  const metrics: QuantifiedMetric[] = [];
+
+  for (const { kind, pattern } of METRIC_PATTERNS) {
+    for (const match of line.text.matchAll(pattern)) {
+      const start = line.start + match.index!;
+      const end = start + match[0].trimEnd().length;
+      if (kind === 'number' && isDateLike(match[0])) continue;
+      if (metrics.some(metric => start < metric.end && end > metric.start)) continue;
+      metrics.push({ kind, start, end, text: match[0].trimEnd() });
+    }
+  }
+
+  return metrics.sort((a, b) => a.start - b.start);
+};
+
+export const quantificationScorer: CategoryScorer = {
+  id: 'quantification',
+  label: 'Quantified Results',
+  weight: 1,
+  score: ({ resume }) => {
+    const bullets = resume.experience
+      .flatMap(entry => entry.bullets)
+      .filter(bullet => /[A-Za-z]/.test(bullet.text));
+
+    if (bullets.length === 0) {
+      return {
+        score: NO_BULLETS_SCORE,
+        suggestions: ['Add experience bullets with measurable results'],
+        findings: { quantification: { total: 0, quantified: 0, percentage: 0, metrics: [], unquantified: [] } }
+      };
+    }
+
+    const measured = bullets.map(bullet => ({ bullet, metrics: findMetrics(bullet) }));
+    const unquantified = measured.filter(entry => entry.metrics.length === 0).map(entry => entry.bullet);
+    const quantified = bullets.length - unquantified.length;
+    const share = quantified / bullets.length;
+
+    return {
+      score: Math.min(share / TARGET_SHARE, 1) * 100,
+      suggestions: share < TARGET_SHARE
+        ? [`Only ${Math.round(share * 100)}% of your experience bullets are quantified; add numbers, percentages or amounts to show impact`]
+        : [],
+      findings: {
+        quantification: {
+          total: bullets.length,
+          quantified,
+          percentage: Math.round(share * 100),
+          metrics: measured.flatMap(entry => entry.metrics),
+          unquantified
+        }
+      },
+      annotations: unquantified.map(bullet => ({
+        start: bullet.start,
+        end: bullet.end,
+        severity: 'info' as const,
+        message: 'No measurable result; add a number, percentage, amount or scale'
+      }))
+    };
+  }
+};
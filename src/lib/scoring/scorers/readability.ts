@@ -0,0 +1,59 @@
+import { computeReadability, READABILITY_TARGETS, type ReadabilityFormula } from '@/lib/readability';
+import type { CategoryScorer } from '../types';
+
+const LONG_SENTENCE_WORDS = 30;
+// Points lost per unit outside a target band; Flesch Reading Ease runs 0-100, the others are grade levels
+const PENALTY_PER_UNIT: Record<ReadabilityFormula, number> = {
+  fleschReadingEase: 2,
+  fleschKincaidGrade: 10,
+  gunningFog: 10,
+  smog: 10
+};
+
+const formulas = Object.keys(READABILITY_TARGETS) as ReadabilityFormula[];
+
+export const readabilityScorer: CategoryScorer = {
+  id: 'readability',
+  label: 'Readability',
+  weight: 1,
+  score: ({ sentences }) => {
+    const readabilityMetrics = computeReadability(sentences);
+    if (readabilityMetrics.words === 0) {
+      return { score: 0, findings: { readabilityMetrics } };
+    }
+
+    const distance = (formula: ReadabilityFormula) => {
+      const { min, max } = READABILITY_TARGETS[formula];
+      const value = readabilityMetrics[formula];
+      return value < min ? value - min : value > max ? value - max : 0;
+    };
+    const penalty = formulas.reduce(
+      (sum, formula) => sum + Math.min(Math.abs(distance(formula)) * PENALTY_PER_UNIT[formula], 100),
+      0
+    ) / formulas.length;
+    const score = Math.max(100 - penalty, 0);
+
+    const grade = readabilityMetrics.fleschKincaidGrade;
+    const { min, max } = READABILITY_TARGETS.fleschKincaidGrade;
+    const suggestions: string[] = [];
+    if (distance('fleschKincaidGrade') > 0 || distance('fleschReadingEase') < 0) {
+      suggestions.push(`Your writing reads at grade ${grade} (target ${min}-${max}); shorten sentences and prefer simpler words`);
+    } else if (distance('fleschKincaidGrade') < 0) {
+      suggestions.push(`Your writing reads at grade ${grade} (target ${min}-${max}); use precise, domain-specific language`);
+    }
+
+    return {
+      score,
+      suggestions,
+      findings: { readabilityMetrics },
+      annotations: sentences
+        .filter(sentence => sentence.words.length > LONG_SENTENCE_WORDS)
+        .map(({ start, end, words }) => ({
+          start,
+          end,
+          severity: 'warning' as const,
+          message: `This sentence has ${words.length} words; aim for fewer than ${LONG_SENTENCE_WORDS}`
+        }))
+    };
+  }
+};
@@ -0,0 +1,131 @@
+import type { ResumeModel, SectionKind } from '@/lib/resume';
+import type { CategoryScorer, ExpectedSection, SectionFinding, TextRange } from '../types';
+
+// Sections every resume is expected to have, in their conventional order
+export const STANDARD_SECTIONS: ExpectedSection[] = [
+  { kind: 'contact', label: 'Contact' },
+  { kind: 'summary', label: 'Summary' },
+  { kind: 'experience', label: 'Experience' },
+  { kind: 'education', label: 'Education' },
+  { kind: 'skills', label: 'Skills' }
+];
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/;
+
+const MISSING_PENALTY = 20;
+const EMPTY_PENALTY = 15;
+const MISPLACED_PENALTY = 5;
+
+const sectionContent = (resume: ResumeModel, kind: SectionKind): number => {
+  switch (kind) {
+    case 'contact':
+      return [resume.contact.email, resume.contact.phone].filter(Boolean).length;
+    case 'summary':
+      return resume.summary.length;
+    case 'experience':
+      return resume.experience.length;
+    case 'education':
+      return resume.education.length;
+    case 'skills':
+      return resume.skills.length;
+    case 'certifications':
+      return resume.certifications.length;
+    case 'projects':
+      return resume.projects.length;
+    default:
+      return 0;
+  }
+};
+
+const findOrderIssue = (resume: ResumeModel, kind: SectionKind): string | undefined => {
+  const position = (target: SectionKind) => resume.sections.findIndex(section => section.kind === target);
+  const index = position(kind);
+  if (kind === 'contact' && index !== 0) {
+    return 'Contact details should be at the very top of the resume';
+  }
+  if (index < 0) return undefined;
+
+  if (kind === 'summary') {
+    const later = (['experience', 'education', 'skills'] as SectionKind[])
+      .filter(other => position(other) >= 0 && position(other) < index);
+    if (later.length > 0) return 'Summary should come before the rest of the resume';
+  }
+  // Graduates often lead with education; only flag it once there is real work history
+  if (kind === 'education' && resume.experience.length >= 2) {
+    const experience = position('experience');
+    if (experience > index) return 'Education is listed before Experience despite several roles';
+  }
+  return undefined;
+};
+
+// Points at the section heading, or at the whole block when it has none (the resume header)
+const sectionRange = (resume: ResumeModel, kind: SectionKind): Partial<TextRange> => {
+  const section = resume.sections.find(candidate => candidate.kind === kind);
+  if (section) {
+    return { start: section.start, end: section.heading ? section.start + section.heading.length : section.end };
+  }
+  if (kind === 'contact') {
+    const email = resume.raw.match(EMAIL_PATTERN);
+    if (email) return { start: email.index!, end: email.index! + email[0].length };
+  }
+  return {};
+};
+
+const analyzeSection = (resume: ResumeModel, kind: SectionKind, label: string): SectionFinding => {
+  // Contact details further down still count, but are flagged as misplaced below
+  const present = kind === 'contact'
+    ? resume.contact.lines.length > 0 || EMAIL_PATTERN.test(resume.raw)
+    : resume.sections.some(section => section.kind === kind);
+
+  if (!present) {
+    return { kind, label, status: 'missing', message: `No ${label} section found` };
+  }
+  if (sectionContent(resume, kind) === 0 && !(kind === 'contact' && resume.contact.lines.length === 0)) {
+    const message = kind === 'contact'
+      ? 'Contact block has no email address or phone number'
+      : `${label} section is empty or could not be read`;
+    return { kind, label, status: 'empty', message, ...sectionRange(resume, kind) };
+  }
+  const orderIssue = findOrderIssue(resume, kind);
+  if (orderIssue) {
+    return { kind, label, status: 'misplaced', message: orderIssue, ...sectionRange(resume, kind) };
+  }
+  return { kind, label, status: 'ok', message: `${label} section found`, ...sectionRange(resume, kind) };
+};
+
+export const structureScorer: CategoryScorer = {
+  id: 'structure',
+  label: 'Structure',
+  weight: 1,
+  score: ({ resume, profile }) => {
+    const sectionFindings = profile.sections.map(({ kind, label }) => analyzeSection(resume, kind, label));
+
+    const penalty = sectionFindings.reduce((sum, finding) => {
+      if (finding.status === 'missing') return sum + MISSING_PENALTY;
+      if (finding.status === 'empty') return sum + EMPTY_PENALTY;
+      if (finding.status === 'misplaced') return sum + MISPLACED_PENALTY;
+      return sum;
+    }, 0);
+
+    const suggestions = sectionFindings
+      .filter(finding => finding.status === 'missing' || finding.status === 'empty')
+      .map(finding => `Add a clearly headed ${finding.label} section`);
+    if (sectionFindings.some(finding => finding.status === 'misplaced')) {
+      suggestions.push('Reorder sections to follow the conventional resume layout');
+    }
+
+    return {
+      score: Math.max(100 - penalty, 0),
+      suggestions,
+      findings: { sectionFindings },
+      annotations: sectionFindings
+        .filter(finding => finding.status !== 'ok' && finding.start !== undefined)
+        .map(finding => ({
+          start: finding.start!,
+          end: finding.end!,
+          severity: 'warning' as const,
+          message: finding.message
+        }))
+    };
+  }
+};
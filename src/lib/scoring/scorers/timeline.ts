@@ -0,0 +1,55 @@
+import { buildTimeline } from '../timeline';
+import type { CategoryScorer, TimelineIssueKind } from '../types';
+
+const NO_DATES_SCORE = 60;
+
+// Points lost per issue; dates that cannot be true weigh most
+const TIMELINE_PENALTIES: Record<TimelineIssueKind, number> = {
+  future: 20,
+  overlap: 15,
+  gap: 10,
+  order: 10,
+  undated: 10
+};
+
+const TIMELINE_ADVICE: Record<TimelineIssueKind, string> = {
+  future: 'Correct dates that lie in the future',
+  overlap: 'Explain overlapping full-time roles, or label side roles as part-time, contract or freelance',
+  gap: 'Account for gaps between roles, e.g. with study, caregiving, travel or freelance work',
+  order: 'List roles and degrees in reverse-chronological order, most recent first',
+  undated: 'Add start and end dates to every role'
+};
+
+export const timelineScorer: CategoryScorer = {
+  id: 'timeline',
+  label: 'Timeline',
+  weight: 1,
+  score: ({ resume, maxGapMonths }) => {
+    const timeline = buildTimeline(resume, maxGapMonths);
+
+    if (timeline.entries.length === 0) {
+      return {
+        score: NO_DATES_SCORE,
+        suggestions: ['Add start and end dates to your experience and education entries'],
+        findings: { timeline }
+      };
+    }
+
+    const penalty = timeline.issues.reduce((sum, issue) => sum + TIMELINE_PENALTIES[issue.kind], 0);
+    const kinds = Array.from(new Set(timeline.issues.map(issue => issue.kind)));
+
+    return {
+      score: Math.max(100 - penalty, 0),
+      suggestions: kinds.map(kind => TIMELINE_ADVICE[kind]),
+      findings: { timeline },
+      annotations: timeline.issues.flatMap(issue =>
+        issue.ranges.map(range => ({
+          start: range.start,
+          end: range.end,
+          severity: issue.kind === 'future' ? 'error' as const : 'warning' as const,
+          message: issue.message
+        }))
+      )
+    };
+  }
+};
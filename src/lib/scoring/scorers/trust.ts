@@ -0,0 +1,32 @@
+import type { CategoryScorer, TrustIssue } from '../types';
+
+const TRUST_ADVICE: Record<TrustIssue, string> = {
+  'hidden-text': 'Remove text that readers cannot see; recruiters and ATS vendors treat hidden keywords as manipulation',
+  'tiny-text': 'Remove or enlarge text set too small to read',
+  'keyword-block': 'Replace keyword lists with experience bullets that show those skills in use',
+  'repeated-skills': 'List each skill once, in the Skills section',
+  'keyword-density': 'Cut repeated skill names and describe the work you did with them instead'
+};
+
+// Reports the keyword-stuffing and hidden-text checks run while building the scoring context
+export const trustScorer: CategoryScorer = {
+  id: 'trust',
+  label: 'Trust',
+  weight: 1,
+  score: ({ trust }) => {
+    const issues = Array.from(new Set(trust.findings.map(finding => finding.issue)));
+
+    return {
+      score: trust.score,
+      suggestions: issues.map(issue => TRUST_ADVICE[issue]),
+      findings: { trustReport: trust },
+      annotations: trust.findings.flatMap(finding =>
+        finding.ranges.map(range => ({
+          ...range,
+          severity: finding.issue === 'hidden-text' || finding.issue === 'tiny-text' ? 'error' as const : 'warning' as const,
+          message: finding.message
+        }))
+      )
+    };
+  }
+};
@@ -0,0 +1,121 @@
+import { DATE_RANGE_PATTERN, formatMonth, parseDateRange, type ResumeLine, type ResumeModel } from '@/lib/resume';
+import type { TextRange, Timeline, TimelineEntry, TimelineIssue } from './types';
+
+export const DEFAULT_MAX_GAP_MONTHS = 6;
+
+// Roles that commonly run alongside other work
+const PART_TIME_PATTERN = /\b(?:part[- ]time|contract(?:or)?|freelance|intern(?:ship)?|volunteer|adjunct|consultant|side project)\b/i;
+// Job changes often share a month; with only years given, a shared year says nothing
+const ALLOWED_OVERLAP_MONTHS = 1;
+const ALLOWED_YEAR_OVERLAP_MONTHS = 12;
+
+// Whether the dates name months ("Jan 2020", "03/2019") rather than just years
+const hasMonths = (dates: string) => /\b(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)|\//i.test(dates);
+
+const rangeOf = (lines: ResumeLine[], dates?: string): TextRange => {
+  const line = lines.find(candidate => dates && candidate.text.includes(dates)) ?? lines[0];
+  return { start: line?.start ?? 0, end: line?.end ?? 0 };
+};
+
+const describe = (entry: TimelineEntry) => `"${entry.label}" (${entry.dates})`;
+
+// Experience and education entries placed on a timeline, with the gaps, overlapping full-time roles,
+// future dates and out-of-order entries a recruiter would ask about
+export const buildTimeline = (
+  resume: ResumeModel,
+  maxGapMonths = DEFAULT_MAX_GAP_MONTHS,
+  today = new Date()
+): Timeline => {
+  const now = today.getFullYear() * 12 + today.getMonth();
+  const entries: TimelineEntry[] = [];
+  const issues: TimelineIssue[] = [];
+
+  for (const entry of resume.experience) {
+    const label = [entry.title, entry.company].filter(Boolean).join(', ') || 'Experience';
+    const range = entry.dates ? parseDateRange(entry.dates, today) : undefined;
+    if (!range) {
+      if (entry.header.length > 0) {
+        issues.push({ kind: 'undated', message: `"${label}" has no dates`, ranges: [rangeOf(entry.header)] });
+      }
+      continue;
+    }
+    entries.push({
+      ...range,
+      range: rangeOf(entry.header, entry.dates),
+      kind: 'experience',
+      label,
+      dates: entry.dates,
+      fullTime: !entry.header.some(line => PART_TIME_PATTERN.test(line.text))
+    });
+  }
+
+  // Education without dates is common and left alone
+  for (const entry of resume.education) {
+    const range = entry.dates ? parseDateRange(entry.dates, today) : undefined;
+    if (!range) continue;
+    entries.push({
+      ...range,
+      range: rangeOf(entry.lines, entry.dates),
+      kind: 'education',
+      label: entry.degree ?? entry.institution ?? 'Education',
+      dates: entry.dates,
+      fullTime: false
+    });
+  }
+
+  for (const entry of entries) {
+    // A lone date under education is a graduation date, which may still lie ahead
+    const future = entry.kind === 'experience'
+      ? entry.start > now || (!entry.current && entry.end > now)
+      : entry.start > now && DATE_RANGE_PATTERN.test(entry.dates);
+    if (future) {
+      issues.push({ kind: 'future', message: `${describe(entry)} has dates in the future`, ranges: [entry.range] });
+    }
+  }
+
+  for (const kind of ['experience', 'education'] as const) {
+    const listed = entries.filter(entry => entry.kind === kind);
+    listed.slice(1).forEach((entry, index) => {
+      const previous = listed[index];
+      if (entry.end > previous.end || (entry.end === previous.end && entry.start > previous.start)) {
+        issues.push({
+          kind: 'order',
+          message: `${describe(entry)} is more recent than ${describe(previous)} but listed after it`,
+          ranges: [entry.range]
+        });
+      }
+    });
+  }
+
+  const fullTime = entries.filter(entry => entry.fullTime);
+  fullTime.forEach((entry, index) => {
+    for (const other of fullTime.slice(index + 1)) {
+      const shared = Math.min(entry.end, other.end) - Math.max(entry.start, other.start) + 1;
+      const allowed = hasMonths(entry.dates) && hasMonths(other.dates) ? ALLOWED_OVERLAP_MONTHS : ALLOWED_YEAR_OVERLAP_MONTHS;
+      if (shared > allowed) {
+        issues.push({
+          kind: 'overlap',
+          message: `${describe(entry)} and ${describe(other)} overlap by ${shared} months; mark one as part-time or contract if it was`,
+          ranges: [entry.range, other.range]
+        });
+      }
+    }
+  });
+
+  // Time in education counts as accounted for, so only breaks between everything listed are gaps
+  const sorted = [...entries].sort((a, b) => a.start - b.start);
+  sorted.reduce<TimelineEntry | undefined>((latest, entry) => {
+    if (!latest) return entry;
+    const months = entry.start - latest.end - 1;
+    if (months > maxGapMonths) {
+      issues.push({
+        kind: 'gap',
+        message: `${months}-month gap from ${formatMonth(latest.end + 1)} to ${formatMonth(entry.start - 1)}, after "${latest.label}"`,
+        ranges: [latest.range, entry.range]
+      });
+    }
+    return entry.end > latest.end ? entry : latest;
+  }, undefined);
+
+  return { entries, issues };
+};
@@ -0,0 +1,253 @@
+import type { DocumentLayout, LayoutItem, PageLayout, TextLine } from '@/lib/layout';
+import { BULLET_PATTERN, type ResumeLine, type ResumeModel, type SectionKind } from '@/lib/resume';
+import { matchSkills, resolveSkills, SKILLS, type Skill } from '@/lib/skills';
+import { locateText } from './ranges';
+import type { TextRange, TrustFinding, TrustIssue, TrustReport } from './types';
+
+// Trust points lost per finding; text nobody can see is the clearest sign of gaming an ATS
+const TRUST_PENALTIES: Record<TrustIssue, number> = {
+  'hidden-text': 40,
+  'tiny-text': 30,
+  'keyword-block': 25,
+  'repeated-skills': 20,
+  'keyword-density': 20
+};
+
+// Share of all words that may be taxonomy skill names before the resume reads as a keyword dump
+const MAX_KEYWORD_DENSITY = 0.25;
+// Below this many words the density is too noisy to judge
+const MIN_WORDS_FOR_DENSITY = 150;
+// Mentions of one skill beyond this are repetition rather than evidence
+const MAX_MENTIONS = 8;
+// A line is a skill list when skill names cover this much of its letters and digits
+const LIST_COVERAGE = 0.6;
+const MIN_LIST_SKILLS = 4;
+// Share of one list's skills another must repeat to count as the same list
+const REPEAT_OVERLAP = 0.8;
+const MIN_BLOCK_SKILLS = 6;
+const MIN_STACK_BLOCK_SKILLS = 12;
+// Lines this short that hold only skills, one after another, read as one list: keywords one per line
+const MAX_RUN_LINE_WORDS = 4;
+// Share of a Skills-section list taken from the scored keywords that marks it as pasted in
+const COPIED_KEYWORDS = 0.75;
+// WCAG contrast ratio below which text is practically invisible against what is behind it
+const MIN_CONTRAST = 1.5;
+// Font size in points below which text cannot be read on a printed page
+const MIN_FONT_SIZE = 4;
+
+const PAGE_COLOR = '#ffffff';
+
+const quote = (text: string) => (text.length > 60 ? `"${text.slice(0, 57)}..."` : `"${text}"`);
+
+// Relative luminance of a "#rrggbb" colour, per WCAG 2
+const luminance = (hex: string): number => {
+  const [r, g, b] = [1, 3, 5].map(offset => {
+    const channel = parseInt(hex.slice(offset, offset + 2), 16) / 255;
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+const contrast = (foreground: string, background: string): number => {
+  const [light, dark] = [luminance(foreground), luminance(background)].sort((a, b) => b - a);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+const isHexColor = (value?: string): value is string => /^#[0-9a-f]{6}$/i.test(value ?? '');
+
+const isInvisible = (item: LayoutItem) =>
+  isHexColor(item.color) && contrast(item.color, isHexColor(item.background) ? item.background : PAGE_COLOR) < MIN_CONTRAST;
+
+const isTiny = (item: LayoutItem) => item.height > 0 && item.height < MIN_FONT_SIZE;
+
+// The reading-order line a run was placed on
+const lineOf = (page: PageLayout, item: LayoutItem): TextLine | undefined =>
+  page.blocks.flatMap(block => block.lines).find(line =>
+    Math.abs(line.y - item.y) <= Math.max(line.height, item.height) / 2
+    && item.x >= line.x - 1 && item.x <= line.x + line.width + 1);
+
+// Text drawn in the page's own colour or too small to see, grouped into one finding per page. Each run
+// is looked for on its own page and line, so a visible copy of the same words elsewhere is not marked.
+const findHiddenText = (content: string, layout: DocumentLayout): TrustFinding[] => {
+  const findings: TrustFinding[] = [];
+  let cursor = 0;
+  for (const page of layout.pages) {
+    const lines = page.blocks.flatMap(block => block.lines).filter(line => line.text.trim());
+    const pageStart = (lines.length > 0 && locateText(content, lines[0].text, cursor)?.start) || cursor;
+    const locate = (item: LayoutItem) => {
+      const line = lineOf(page, item);
+      const lineStart = line ? locateText(content, line.text, pageStart)?.start : undefined;
+      return locateText(content, item.text, lineStart ?? pageStart);
+    };
+
+    const readable = page.items.filter(item => /[a-z0-9]{2}/i.test(item.text));
+    const invisible = readable.filter(isInvisible);
+    const tiny = readable.filter(item => !isInvisible(item) && isTiny(item));
+
+    const report = (issue: TrustIssue, items: LayoutItem[], description: string) => {
+      if (items.length === 0) return;
+      const text = items.map(item => item.text.trim()).join(' ');
+      findings.push({
+        issue,
+        message: `Page ${page.number} has ${description}: ${quote(text)}`,
+        ranges: items.map(locate).filter((range): range is TextRange => !!range)
+      });
+    };
+    report('hidden-text', invisible, 'text that is invisible against its background');
+    report('tiny-text', tiny, `text smaller than ${MIN_FONT_SIZE}pt`);
+
+    const last = lines.length > 0 ? locateText(content, lines[lines.length - 1].text, pageStart) : undefined;
+    cursor = last?.end ?? pageStart;
+  }
+  return findings;
+};
+
+interface SkillLine extends ResumeLine {
+  section: SectionKind;
+  skills: Set<Skill>;
+  // Whether the line is made up of skill names, and whether there are enough of them to be a list
+  onlySkills: boolean;
+  isList: boolean;
+  // Set on a run of one-skill lines merged into a single list
+  isRun?: boolean;
+}
+
+const readSkillLines = (resume: ResumeModel, skills: Skill[]): SkillLine[] =>
+  resume.sections.flatMap(section =>
+    section.lines.map(line => {
+      const matches = matchSkills(line.text, skills);
+      const covered = matches.reduce(
+        (sum, match) => sum + match.ranges.reduce((total, range) =>
+          total + line.text.slice(range.start, range.end).replace(/[^a-z0-9]/gi, '').length, 0),
+        0
+      );
+      const letters = line.text.replace(/[^a-z0-9]/gi, '').length;
+      const onlySkills = matches.length > 0 && letters > 0 && covered / letters >= LIST_COVERAGE;
+      return {
+        ...line,
+        section: section.kind,
+        skills: new Set(matches.map(match => match.skill)),
+        onlySkills,
+        isList: onlySkills && matches.length >= MIN_LIST_SKILLS
+      };
+    })
+  );
+
+// Merges consecutive short skill-only lines outside the Skills section and outside any role's bullets
+// into one list, so keywords written one per line are judged like the same keywords comma-separated
+const readSkillRuns = (lines: SkillLine[]): SkillLine[] => {
+  const runs: SkillLine[][] = [];
+  let current: SkillLine[] = [];
+  for (const line of lines) {
+    const fits = line.onlySkills && line.section !== 'skills' && !BULLET_PATTERN.test(line.text)
+      && line.text.split(/\s+/).length <= MAX_RUN_LINE_WORDS;
+    if (fits && current.length > 0 && current[0].section === line.section) {
+      current.push(line);
+      continue;
+    }
+    if (current.length > 1) runs.push(current);
+    current = fits ? [line] : [];
+  }
+  if (current.length > 1) runs.push(current);
+
+  return runs.map(run => ({
+    text: run.map(line => line.text).join(', '),
+    start: run[0].start,
+    end: run[run.length - 1].end,
+    section: run[0].section,
+    skills: new Set(run.flatMap(line => Array.from(line.skills))),
+    onlySkills: true,
+    isList: true,
+    isRun: true
+  }));
+};
+
+// Sections whose prose shows skills in use
+const EVIDENCE_SECTIONS = new Set<SectionKind>(['summary', 'experience', 'projects']);
+
+const lineRange = (line: ResumeLine): TextRange => ({ start: line.start, end: line.end });
+
+// Looks for signs that a resume was written for keyword matching rather than for readers: skill lists
+// repeated or dropped outside the Skills section, skill names crowding out everything else, and text
+// in a PDF that is invisible or too small to read.
+export const assessTrust = (
+  content: string,
+  resume: ResumeModel,
+  words: string[],
+  keywords: string[],
+  layout?: DocumentLayout
+): TrustReport => {
+  const scoringSkills = new Set(resolveSkills(keywords));
+  const skills = Array.from(new Set([...SKILLS, ...scoringSkills]));
+  const findings: TrustFinding[] = layout ? findHiddenText(content, layout) : [];
+
+  // Only real skills count towards density; generic keywords such as "team" are ordinary prose
+  const matches = matchSkills(content, SKILLS);
+  const mentions = matches.reduce((sum, match) => sum + match.ranges.length, 0);
+  if (words.length >= MIN_WORDS_FOR_DENSITY && mentions / words.length > MAX_KEYWORD_DENSITY) {
+    findings.push({
+      issue: 'keyword-density',
+      message: `Skill names make up ${Math.round((mentions / words.length) * 100)}% of the words in the resume`,
+      ranges: []
+    });
+  }
+  for (const match of matches.filter(candidate => candidate.ranges.length > MAX_MENTIONS)) {
+    findings.push({
+      issue: 'keyword-density',
+      message: `"${match.skill.name}" is mentioned ${match.ranges.length} times`,
+      ranges: match.ranges.slice(MAX_MENTIONS)
+    });
+  }
+
+  const lines = readSkillLines(resume, skills);
+  const lists = [...lines.filter(line => line.isList), ...readSkillRuns(lines)].sort((a, b) => a.start - b.start);
+  lists.forEach((line, index) => {
+    const repeats = lists.slice(0, index).some(earlier => {
+      const shared = Array.from(line.skills).filter(skill => earlier.skills.has(skill)).length;
+      return shared / Math.min(line.skills.size, earlier.skills.size) >= REPEAT_OVERLAP;
+    });
+    if (repeats) {
+      findings.push({
+        issue: 'repeated-skills',
+        message: `The same list of skills appears again: ${quote(line.text.trim())}`,
+        ranges: [lineRange(line)]
+      });
+    }
+  });
+
+  for (const line of lists) {
+    // Roles and projects often end with their tech stack, so only an outsized list there stands out
+    const isStack = !line.isRun && (line.section === 'experience' || line.section === 'projects');
+    if (line.skills.size < (isStack ? MIN_STACK_BLOCK_SKILLS : MIN_BLOCK_SKILLS)) continue;
+    const evidenced = new Set(lines
+      .filter(other => (other.start < line.start || other.end > line.end) && EVIDENCE_SECTIONS.has(other.section))
+      .flatMap(other => Array.from(other.skills)));
+    const share = (test: (skill: Skill) => boolean) => Array.from(line.skills).filter(test).length / line.skills.size;
+    const unsupported = share(skill => !evidenced.has(skill));
+    // Under the Skills heading a list is expected, so only one that copies the scored keywords stands out
+    const suspicious = line.section === 'skills'
+      ? unsupported >= 0.75 && share(skill => scoringSkills.has(skill)) >= COPIED_KEYWORDS
+      : unsupported >= 0.5;
+    if (suspicious) {
+      findings.push({
+        issue: 'keyword-block',
+        message: `A block of ${line.skills.size} keywords has no experience behind most of them: ${quote(line.text.trim())}`,
+        ranges: [lineRange(line)]
+      });
+    }
+  }
+
+  const penalty = findings.reduce((sum, finding) => sum + TRUST_PENALTIES[finding.issue], 0);
+  return { score: Math.max(100 - penalty, 0), findings };
+};
+
+// `content` with flagged text blanked out, offsets unchanged, so it no longer counts towards keyword matches
+export const withoutFlaggedText = (content: string, report: TrustReport): string => {
+  const chars = content.split('');
+  for (const { start, end } of report.findings.flatMap(finding => finding.ranges)) {
+    for (let i = start; i < end && i < chars.length; i++) {
+      if (chars[i] !== '\n') chars[i] = ' ';
+    }
+  }
+  return chars.join('');
+};
@@ -0,0 +1,267 @@
+import type { GrammarIssue, SpellChecker } from '@/lib/grammar';
+import type { AtsWarning, DocumentLayout } from '@/lib/layout';
+import type { ReadabilityReport, Sentence } from '@/lib/readability';
+import type { DateRange, ResumeLine, ResumeModel, SectionKind } from '@/lib/resume';
+import type { JobMatch } from './job-description';
+
+export interface CategoryScore {
+  id: string;
+  label: string;
+  weight: number;
+  score: number;
+}
+
+// One entry per registered category, in registration order
+export type ScoreBreakdown = CategoryScore[];
+
+export type ReadabilityMetrics = ReadabilityReport;
+
+// Character offsets into the scored text; `end` is exclusive
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export type AnnotationSeverity = 'error' | 'warning' | 'info';
+
+// A finding tied to a span of the resume text, tagged with the category that raised it
+export interface Annotation extends TextRange {
+  category: string;
+  severity: AnnotationSeverity;
+  message: string;
+  suggestion?: string;
+}
+
+export type SectionStatus = 'ok' | 'missing' | 'empty' | 'misplaced';
+
+export interface SectionFinding extends Partial<TextRange> {
+  kind: SectionKind;
+  label: string;
+  status: SectionStatus;
+  message: string;
+}
+
+export type ContactField = 'name' | 'email' | 'phone' | 'location' | 'linkedin' | 'github' | 'portfolio';
+
+export interface ContactCheck extends Partial<TextRange> {
+  field: ContactField;
+  label: string;
+  value?: string;
+  status: 'pass' | 'fail' | 'missing';
+  message: string;
+}
+
+// How a bullet opens: an action verb, a duty phrase, the passive voice or anything else
+export type BulletStrength = 'strong' | 'weak' | 'passive' | 'other';
+
+export interface BulletFinding extends TextRange {
+  text: string;
+  // The bullet's first word
+  verb?: string;
+  strength: BulletStrength;
+  // Number of filler phrases in the bullet
+  fillers: number;
+  issues: string[];
+  suggestedVerbs: string[];
+}
+
+export type MetricKind = 'currency' | 'percentage' | 'multiplier' | 'scale' | 'number';
+
+// A measurable figure found in an experience bullet, e.g. "$2M", "40%" or "team of 8"
+export interface QuantifiedMetric extends TextRange {
+  kind: MetricKind;
+  text: string;
+}
+
+export interface QuantificationSummary {
+  // Experience bullets considered, and how many contain at least one metric
+  total: number;
+  quantified: number;
+  percentage: number;
+  metrics: QuantifiedMetric[];
+  unquantified: ResumeLine[];
+}
+
+export interface AtsReport {
+  // The format whose layout was checked, or 'text' when only the extracted text could be checked
+  source: 'pdf' | 'docx' | 'text';
+  // Parse risk from 0 (safe) to 100
+  risk: number;
+  warnings: AtsWarning[];
+}
+
+export type TrustIssue = 'hidden-text' | 'tiny-text' | 'keyword-block' | 'repeated-skills' | 'keyword-density';
+
+export interface TrustFinding {
+  issue: TrustIssue;
+  message: string;
+  // Where the suspicious text sits; empty for findings about the resume as a whole
+  ranges: TextRange[];
+}
+
+export interface TrustReport {
+  // 100 when nothing suggests the resume was written to game keyword matching
+  score: number;
+  findings: TrustFinding[];
+}
+
+// Whether bullets back up a listed skill, or use a skill the Skills section leaves out
+export type SkillEvidenceStatus = 'supported' | 'unsupported' | 'unlisted';
+
+// An experience or project bullet that mentions a skill
+export interface SkillUse extends TextRange {
+  // The role ("Engineer, Acme") or project the bullet belongs to
+  source: string;
+  text: string;
+}
+
+export interface SkillEvidence {
+  skill: string;
+  category?: string;
+  status: SkillEvidenceStatus;
+  uses: SkillUse[];
+  // Years spanned by the dated roles and projects that use the skill; absent when none are dated
+  years?: number;
+}
+
+export type TimelineIssueKind = 'gap' | 'overlap' | 'future' | 'order' | 'undated';
+
+// A dated experience or education entry; `start` and `end` are months, as from parseDateRange
+export interface TimelineEntry extends DateRange {
+  kind: 'experience' | 'education';
+  label: string;
+  dates: string;
+  // Where the entry's dates are written
+  range: TextRange;
+  // Part-time, contract, internship and volunteer roles may overlap other work
+  fullTime: boolean;
+}
+
+export interface TimelineIssue {
+  kind: TimelineIssueKind;
+  message: string;
+  // The entries the issue is about, e.g. both roles of an overlap
+  ranges: TextRange[];
+}
+
+export interface Timeline {
+  entries: TimelineEntry[];
+  issues: TimelineIssue[];
+}
+
+export interface KeywordMatch {
+  // Canonical skill name, e.g. "Kubernetes"
+  keyword: string;
+  // How the resume spells it, e.g. ["k8s", "Kubernetes"]
+  forms: string[];
+  // Taxonomy category label, e.g. "DevOps"; absent for keywords outside the taxonomy
+  category?: string;
+}
+
+export interface ResumeAnalysis {
+  version: string;
+  overall: number;
+  breakdown: ScoreBreakdown;
+  resume: ResumeModel;
+  suggestions: string[];
+  // Id of the role profile the resume was scored for
+  profile: string;
+  matchedKeywords: KeywordMatch[];
+  jobMatch?: JobMatch;
+  grammarIssues: GrammarIssue[];
+  readabilityMetrics: ReadabilityMetrics;
+  sectionFindings: SectionFinding[];
+  contactChecks: ContactCheck[];
+  bulletFindings: BulletFinding[];
+  quantification: QuantificationSummary;
+  atsReport: AtsReport;
+  trustReport: TrustReport;
+  skillEvidence: SkillEvidence[];
+  timeline: Timeline;
+  annotations: Annotation[];
+}
+
+export interface ExpectedSection {
+  kind: SectionKind;
+  label: string;
+}
+
+// What a resume for one kind of role is judged against
+export interface RoleProfile {
+  id: string;
+  label: string;
+  keywords: string[];
+  // Sections the resume should have, in their conventional order
+  sections: ExpectedSection[];
+  // Per-category weight overrides keyed by scorer id
+  weights: Record<string, number>;
+}
+
+// Everything a scorer may read; built once per run and shared by all scorers
+export interface ScoringContext {
+  content: string;
+  text: string;
+  resume: ResumeModel;
+  // Sentences and bullet lines of prose, headings and short fragments excluded
+  sentences: Sentence[];
+  words: string[];
+  keywords: string[];
+  profile: RoleProfile;
+  // Keyword stuffing and hidden text; keyword matches inside flagged text are not counted
+  trust: TrustReport;
+  jobMatch?: JobMatch;
+  spellChecker?: SpellChecker;
+  layout?: DocumentLayout;
+  // Months between entries beyond which the timeline reports a gap
+  maxGapMonths: number;
+}
+
+// Findings a scorer contributes to the analysis alongside its score
+export type ScorerFindings = Partial<Pick<
+  ResumeAnalysis,
+  'matchedKeywords' | 'grammarIssues' | 'readabilityMetrics' | 'sectionFindings' | 'contactChecks'
+  | 'bulletFindings' | 'quantification' | 'atsReport' | 'trustReport'
+  | 'skillEvidence' | 'timeline'
+>>;
+
+export interface CategoryResult {
+  score: number;
+  suggestions?: string[];
+  findings?: ScorerFindings;
+  // The engine tags each annotation with the scorer's id
+  annotations?: Omit<Annotation, 'category'>[];
+}
+
+export interface CategoryScorer {
+  id: string;
+  label: string;
+  // Relative weight in the overall score; only the ratio between categories matters
+  weight: number;
+  score: (context: ScoringContext) => CategoryResult;
+}
+
+export interface ScorerRegistry {
+  register: (scorer: CategoryScorer) => void;
+  unregister: (id: string) => void;
+  get: (id: string) => CategoryScorer | undefined;
+  list: () => CategoryScorer[];
+}
+
+export interface ScoreOptions {
+  // Pre-parsed model of `content`; parsed on demand when omitted
+  resume?: ResumeModel;
+  jobDescription?: string;
+  // Keywords, expected sections and weights for the target role; the general profile when omitted
+  profile?: RoleProfile;
+  // Replaces the profile's keywords
+  keywords?: string[];
+  // Enables dictionary spelling checks; see loadSpellChecker in '@/lib/grammar'
+  spellChecker?: SpellChecker;
+  // Page geometry of an uploaded PDF; enables layout checks in the ATS category
+  layout?: DocumentLayout;
+  // Months between roles before the timeline reports a gap; 6 when omitted
+  maxGapMonths?: number;
+  registry?: ScorerRegistry;
+  // Per-category weight overrides keyed by scorer id; these win over the profile's weights
+  weights?: Record<string, number>;
+}
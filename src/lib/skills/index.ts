@@ -0,0 +1,4 @@
+export { SKILL_CATEGORIES, SKILLS } from './taxonomy';
+export { findSkill, matchSkills, resolveSkills, skillCategories } from './match';
+
+export type { Skill, SkillCategory, SkillMatch } from './types';
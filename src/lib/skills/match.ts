@@ -0,0 +1,112 @@
+import { SKILL_CATEGORIES, SKILLS } from './taxonomy';
+import type { Skill, SkillCategory, SkillMatch } from './types';
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Words keep a trailing "+" or "#" (C++, C#); "." and "/" count only when glued to the next word
+// (Node.js, .NET, CI/CD). Spaces and hyphens just separate words, so "problem-solving" reads as
+// "problem solving".
+const TOKEN_PATTERN = /[a-z0-9]+[+#]*|[./](?=[a-z0-9])/gi;
+
+const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(TOKEN_PATTERN), match => ({
+    text: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+
+const tokenKey = (term: string) => tokenize(term).map(token => token.text).join(' ');
+
+const spellings = (skill: Skill) => Array.from(new Set([skill.name, ...(skill.aliases ?? []), ...(skill.exact ?? [])]));
+
+const skillsByKey = new Map<string, Skill>();
+for (const skill of SKILLS) {
+  for (const spelling of spellings(skill)) {
+    skillsByKey.set(tokenKey(spelling), skill);
+  }
+}
+
+// The taxonomy skill a name, alias or abbreviation refers to, in any case: "k8s" -> Kubernetes
+export const findSkill = (term: string): Skill | undefined => skillsByKey.get(tokenKey(term));
+
+// Looks each term up in the taxonomy; terms it doesn't know are kept as skills of their own
+export const resolveSkills = (terms: string[]): Skill[] => {
+  const skills = new Map<string, Skill>();
+  for (const term of terms) {
+    const skill = findSkill(term) ?? { name: term };
+    if (!skills.has(skill.name)) skills.set(skill.name, skill);
+  }
+  return Array.from(skills.values());
+};
+
+// The skill's category followed by each broader category above it
+export const skillCategories = (skill: Skill): SkillCategory[] => {
+  const path: SkillCategory[] = [];
+  let category = SKILL_CATEGORIES.find(entry => entry.id === skill.category);
+  while (category && !path.includes(category)) {
+    path.push(category);
+    const parent = category.parent;
+    category = SKILL_CATEGORIES.find(entry => entry.id === parent);
+  }
+  return path;
+};
+
+interface Pattern {
+  tokens: string[];
+  // Tokens as written, for spellings that must match case
+  exact?: string[];
+  skill: Skill;
+}
+
+// Finds whole-token occurrences of any spelling of `skills` in `text`. At each position the longest
+// spelling wins, so "Node.js" counts as Node.js only, not also as "JS".
+export const matchSkills = (text: string, skills: Skill[] = SKILLS): SkillMatch[] => {
+  const patterns = new Map<string, Pattern[]>();
+  for (const skill of skills) {
+    for (const spelling of spellings(skill)) {
+      const tokens = tokenize(spelling).map(token => token.text);
+      if (tokens.length === 0) continue;
+      const exact = skill.exact?.includes(spelling)
+        ? tokenize(spelling).map(token => spelling.slice(token.start, token.end))
+        : undefined;
+      const list = patterns.get(tokens[0]) ?? [];
+      list.push({ tokens, exact, skill });
+      patterns.set(tokens[0], list);
+    }
+  }
+  for (const list of patterns.values()) {
+    list.sort((a, b) => b.tokens.length - a.tokens.length);
+  }
+
+  const matches = new Map<Skill, SkillMatch>();
+  const tokens = tokenize(text);
+  let i = 0;
+  while (i < tokens.length) {
+    const pattern = patterns.get(tokens[i].text)?.find(candidate =>
+      candidate.tokens.every((token, offset) => {
+        const next = tokens[i + offset];
+        if (!next) return false;
+        return candidate.exact ? text.slice(next.start, next.end) === candidate.exact[offset] : next.text === token;
+      })
+    );
+    if (!pattern) {
+      i++;
+      continue;
+    }
+
+    const start = tokens[i].start;
+    const end = tokens[i + pattern.tokens.length - 1].end;
+    const match = matches.get(pattern.skill) ?? { skill: pattern.skill, forms: [], ranges: [] };
+    const form = text.slice(start, end);
+    if (!match.forms.includes(form)) match.forms.push(form);
+    match.ranges.push({ start, end });
+    matches.set(pattern.skill, match);
+    i += pattern.tokens.length;
+  }
+
+  return Array.from(matches.values());
+};
@@ -0,0 +1,185 @@
+import type { Skill, SkillCategory } from './types';
+
+export const SKILL_CATEGORIES: SkillCategory[] = [
+  { id: 'software-development', label: 'Software development' },
+  { id: 'programming-languages', label: 'Programming languages', parent: 'software-development' },
+  { id: 'frontend-frameworks', label: 'Frontend frameworks', parent: 'software-development' },
+  { id: 'backend-frameworks', label: 'Backend frameworks', parent: 'software-development' },
+  { id: 'web-technologies', label: 'Web technologies', parent: 'software-development' },
+  { id: 'infrastructure', label: 'Infrastructure' },
+  { id: 'cloud-platforms', label: 'Cloud platforms', parent: 'infrastructure' },
+  { id: 'devops', label: 'DevOps', parent: 'infrastructure' },
+  { id: 'data', label: 'Data' },
+  { id: 'databases', label: 'Databases', parent: 'data' },
+  { id: 'data-science', label: 'Data science', parent: 'data' },
+  { id: 'business-intelligence', label: 'Business intelligence', parent: 'data' },
+  { id: 'tools', label: 'Tools' },
+  { id: 'productivity-tools', label: 'Productivity tools', parent: 'tools' },
+  { id: 'design', label: 'Design' },
+  { id: 'ux-design', label: 'UX design', parent: 'design' },
+  { id: 'design-tools', label: 'Design tools', parent: 'design' },
+  { id: 'product', label: 'Product' },
+  { id: 'product-management', label: 'Product management', parent: 'product' },
+  { id: 'finance', label: 'Finance' },
+  { id: 'financial-analysis', label: 'Financial analysis', parent: 'finance' },
+  { id: 'accounting', label: 'Accounting', parent: 'finance' },
+  { id: 'healthcare', label: 'Healthcare' },
+  { id: 'clinical-care', label: 'Clinical care', parent: 'healthcare' },
+  { id: 'clinical-credentials', label: 'Clinical credentials', parent: 'healthcare' },
+  { id: 'practices', label: 'Practices' },
+  { id: 'methodologies', label: 'Methodologies', parent: 'practices' },
+  { id: 'engineering-practices', label: 'Engineering practices', parent: 'practices' },
+  { id: 'soft-skills', label: 'Soft skills' }
+];
+
+// Names and aliases are matched as whole tokens, so "react" never matches "reaction". Spellings that are
+// also everyday words ("go", "express", "spring", "excel", "node") are left out or only listed in an
+// unambiguous form, or must be capitalized as listed in `exact` ("Swift", "ML").
+export const SKILLS: Skill[] = [
+  { name: 'JavaScript', category: 'programming-languages', aliases: ['js', 'ecmascript', 'es6'] },
+  { name: 'TypeScript', category: 'programming-languages', aliases: ['ts'] },
+  { name: 'Python', category: 'programming-languages', aliases: ['python3'] },
+  { name: 'Java', category: 'programming-languages' },
+  { name: 'C#', category: 'programming-languages', aliases: ['csharp', 'c sharp'] },
+  { name: 'C++', category: 'programming-languages', aliases: ['cpp'] },
+  { name: 'Golang', category: 'programming-languages', aliases: ['go lang'] },
+  { name: 'Ruby', category: 'programming-languages' },
+  { name: 'PHP', category: 'programming-languages' },
+  { name: 'Swift', category: 'programming-languages', exact: ['Swift'] },
+  { name: 'Kotlin', category: 'programming-languages' },
+  { name: 'Rust', category: 'programming-languages', exact: ['Rust'] },
+  { name: 'Scala', category: 'programming-languages' },
+  { name: 'SQL', category: 'programming-languages', aliases: ['t-sql', 'pl/sql'] },
+
+  { name: 'React', category: 'frontend-frameworks', aliases: ['react.js', 'reactjs'] },
+  { name: 'Angular', category: 'frontend-frameworks', aliases: ['angularjs', 'angular.js'] },
+  { name: 'Vue', category: 'frontend-frameworks', aliases: ['vue.js', 'vuejs'] },
+  { name: 'Next.js', category: 'frontend-frameworks', aliases: ['nextjs'] },
+  { name: 'Svelte', category: 'frontend-frameworks', aliases: ['sveltekit'] },
+
+  { name: 'Node.js', category: 'backend-frameworks', aliases: ['nodejs'] },
+  { name: 'Express.js', category: 'backend-frameworks', aliases: ['expressjs'] },
+  { name: 'Django', category: 'backend-frameworks' },
+  { name: 'Flask', category: 'backend-frameworks' },
+  { name: 'Spring Boot', category: 'backend-frameworks', aliases: ['spring framework'] },
+  { name: '.NET', category: 'backend-frameworks', aliases: ['dotnet', 'asp.net', '.net core'] },
+  { name: 'Ruby on Rails', category: 'backend-frameworks', aliases: ['rails', 'ror'] },
+  { name: 'Laravel', category: 'backend-frameworks' },
+
+  { name: 'HTML', category: 'web-technologies', aliases: ['html5'] },
+  { name: 'CSS', category: 'web-technologies', aliases: ['css3', 'scss', 'sass'] },
+  { name: 'Tailwind CSS', category: 'web-technologies', aliases: ['tailwind', 'tailwindcss'] },
+  { name: 'GraphQL', category: 'web-technologies' },
+  { name: 'REST API', category: 'web-technologies', aliases: ['rest apis', 'restful', 'restful api', 'restful apis'] },
+
+  { name: 'AWS', category: 'cloud-platforms', aliases: ['amazon web services'] },
+  { name: 'Azure', category: 'cloud-platforms', aliases: ['microsoft azure'] },
+  { name: 'Google Cloud', category: 'cloud-platforms', aliases: ['gcp', 'google cloud platform'] },
+
+  { name: 'Docker', category: 'devops', aliases: ['containerization'] },
+  { name: 'Kubernetes', category: 'devops', aliases: ['k8s'] },
+  { name: 'Terraform', category: 'devops' },
+  {
+    name: 'CI/CD',
+    category: 'devops',
+    aliases: ['continuous integration', 'continuous delivery', 'continuous deployment']
+  },
+  { name: 'Jenkins', category: 'devops' },
+  { name: 'Git', category: 'devops' },
+  { name: 'Linux', category: 'devops', aliases: ['unix'] },
+
+  { name: 'PostgreSQL', category: 'databases', aliases: ['postgres', 'psql'] },
+  { name: 'MySQL', category: 'databases' },
+  { name: 'MongoDB', category: 'databases', aliases: ['mongo'] },
+  { name: 'Redis', category: 'databases' },
+  { name: 'NoSQL', category: 'databases' },
+  { name: 'DynamoDB', category: 'databases' },
+  { name: 'Elasticsearch', category: 'databases', aliases: ['elastic search'] },
+
+  { name: 'Machine Learning', category: 'data-science', exact: ['ML'] },
+  { name: 'Deep Learning', category: 'data-science' },
+  { name: 'Data Analysis', category: 'data-science', aliases: ['data analytics'] },
+  { name: 'TensorFlow', category: 'data-science' },
+  { name: 'PyTorch', category: 'data-science' },
+  { name: 'Pandas', category: 'data-science' },
+  { name: 'Scikit-learn', category: 'data-science', aliases: ['sklearn', 'scikit learn'] },
+  { name: 'Statistics', category: 'data-science', aliases: ['statistical analysis', 'statistical modeling'] },
+  { name: 'NLP', category: 'data-science', aliases: ['natural language processing'] },
+  { name: 'Data Visualization', category: 'data-science', aliases: ['data viz'] },
+  { name: 'Apache Spark', category: 'data-science', aliases: ['pyspark'], exact: ['Spark'] },
+
+  { name: 'Tableau', category: 'business-intelligence' },
+  { name: 'Power BI', category: 'business-intelligence', aliases: ['powerbi'] },
+  { name: 'Microsoft Excel', category: 'productivity-tools', aliases: ['ms excel', 'excel vba'] },
+  { name: 'Salesforce', category: 'productivity-tools', aliases: ['sfdc'] },
+  { name: 'Jira', category: 'productivity-tools' },
+  { name: 'Confluence', category: 'productivity-tools' },
+  { name: 'Figma', category: 'design-tools' },
+  { name: 'Adobe XD', category: 'design-tools' },
+
+  { name: 'User Research', category: 'ux-design', aliases: ['ux research', 'user interviews'] },
+  { name: 'Usability Testing', category: 'ux-design', aliases: ['usability studies'] },
+  { name: 'Wireframing', category: 'ux-design', aliases: ['wireframes', 'wireframe'] },
+  { name: 'Prototyping', category: 'ux-design', aliases: ['prototypes', 'prototype'] },
+  { name: 'Interaction Design', category: 'ux-design', aliases: ['ixd'] },
+  { name: 'Information Architecture', category: 'ux-design' },
+  { name: 'Design Systems', category: 'ux-design', aliases: ['design system'] },
+  { name: 'Accessibility', category: 'ux-design', aliases: ['a11y', 'wcag'] },
+  { name: 'User Flows', category: 'ux-design', aliases: ['user flow', 'journey mapping', 'user journeys'] },
+
+  { name: 'Product Strategy', category: 'product-management', aliases: ['product vision'] },
+  { name: 'Roadmapping', category: 'product-management', aliases: ['product roadmap', 'roadmaps', 'roadmap'] },
+  { name: 'User Stories', category: 'product-management', aliases: ['user story'] },
+  { name: 'Prioritization', category: 'product-management', aliases: ['prioritisation', 'backlog prioritization'] },
+  { name: 'A/B Testing', category: 'product-management', aliases: ['ab testing', 'split testing', 'experimentation'] },
+  { name: 'Market Research', category: 'product-management', aliases: ['competitive analysis'] },
+  { name: 'Product Discovery', category: 'product-management' },
+  { name: 'Go-to-Market', category: 'product-management', aliases: ['gtm'] },
+  { name: 'KPIs', category: 'product-management', aliases: ['kpi', 'okrs', 'okr'] },
+
+  { name: 'Financial Modeling', category: 'financial-analysis', aliases: ['financial modelling', 'financial models'] },
+  { name: 'Forecasting', category: 'financial-analysis', aliases: ['financial forecasting', 'forecasts'] },
+  { name: 'Budgeting', category: 'financial-analysis', aliases: ['budget planning', 'budgets'] },
+  { name: 'Variance Analysis', category: 'financial-analysis' },
+  { name: 'Valuation', category: 'financial-analysis', aliases: ['dcf', 'discounted cash flow'] },
+  { name: 'Financial Reporting', category: 'accounting', aliases: ['financial statements'] },
+  { name: 'GAAP', category: 'accounting', aliases: ['us gaap'] },
+  { name: 'IFRS', category: 'accounting' },
+  { name: 'CFA', category: 'financial-analysis', aliases: ['chartered financial analyst'] },
+  { name: 'CPA', category: 'accounting', aliases: ['certified public accountant'] },
+
+  { name: 'Patient Care', category: 'clinical-care', aliases: ['patient-centered care', 'direct patient care'] },
+  { name: 'Patient Assessment', category: 'clinical-care', aliases: ['patient assessments', 'nursing assessment'] },
+  { name: 'Medication Administration', category: 'clinical-care', aliases: ['administering medications'] },
+  {
+    name: 'Electronic Health Records',
+    category: 'clinical-care',
+    aliases: ['ehr', 'emr', 'electronic medical records']
+  },
+  { name: 'Care Planning', category: 'clinical-care', aliases: ['care plans', 'nursing care plans'] },
+  { name: 'Triage', category: 'clinical-care' },
+  { name: 'Infection Control', category: 'clinical-care', aliases: ['infection prevention'] },
+  { name: 'Patient Education', category: 'clinical-care' },
+  { name: 'IV Therapy', category: 'clinical-care', aliases: ['iv insertion', 'intravenous therapy'] },
+  { name: 'BLS', category: 'clinical-credentials', aliases: ['basic life support'] },
+  { name: 'ACLS', category: 'clinical-credentials', aliases: ['advanced cardiac life support'] },
+  { name: 'RN License', category: 'clinical-credentials', aliases: ['registered nurse', 'rn'] },
+
+  { name: 'Agile', category: 'methodologies' },
+  { name: 'Scrum', category: 'methodologies' },
+  { name: 'Kanban', category: 'methodologies' },
+  { name: 'Testing', category: 'engineering-practices', aliases: ['unit testing', 'automated testing', 'test automation'] },
+  { name: 'Security', category: 'engineering-practices', aliases: ['cybersecurity', 'cyber security'] },
+  { name: 'Microservices', category: 'engineering-practices', aliases: ['microservice', 'microservice architecture'] },
+
+  { name: 'Leadership', category: 'soft-skills', aliases: ['team leadership'] },
+  { name: 'Management', category: 'soft-skills', aliases: ['people management'] },
+  { name: 'Project Management', category: 'soft-skills' },
+  { name: 'Stakeholder Management', category: 'soft-skills' },
+  { name: 'Communication', category: 'soft-skills', aliases: ['communication skills'] },
+  { name: 'Problem Solving', category: 'soft-skills' },
+  { name: 'Analytical Skills', category: 'soft-skills', aliases: ['analytical'] },
+  { name: 'Strategic Thinking', category: 'soft-skills', aliases: ['strategic', 'strategic planning'] },
+  { name: 'Mentoring', category: 'soft-skills', aliases: ['mentorship', 'mentored', 'coaching'] },
+  { name: 'Collaboration', category: 'soft-skills', aliases: ['collaborated', 'collaborative', 'cross-functional'] }
+];
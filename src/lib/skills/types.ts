@@ -0,0 +1,26 @@
+export interface SkillCategory {
+  id: string;
+  label: string;
+  // Broader category this one belongs to, e.g. frontend frameworks -> software development
+  parent?: string;
+}
+
+export interface Skill {
+  // Canonical spelling shown to the user, e.g. "JavaScript"
+  name: string;
+  // Id of a SkillCategory; absent for ad-hoc keywords outside the taxonomy
+  category?: string;
+  // Other spellings and abbreviations that mean the same skill, e.g. "js", "ecmascript"
+  aliases?: string[];
+  // Spellings, the name included, that only count when capitalized exactly like this because in lower
+  // case they are ordinary words: "ML" but not "500 ml", "Swift" but not "swift delivery"
+  exact?: string[];
+}
+
+export interface SkillMatch {
+  skill: Skill;
+  // Every distinct spelling found, exactly as written in the text
+  forms: string[];
+  // Character offsets of each occurrence; `end` is exclusive
+  ranges: { start: number; end: number }[];
+}
@@ -1,17 +1,29 @@
 import { useState } from 'react';
 import { ResumeUpload } from '@/components/ResumeUpload';
 import { ResumeScoring } from '@/components/ResumeScoring';
+import { JobDescriptionInput } from '@/components/JobDescriptionInput';
+import { AnnotatedResume } from '@/components/AnnotatedResume';
+import { RoleProfileSelect } from '@/components/RoleProfileSelect';
 import { Button } from '@/components/ui/button';
 import { FileText, Star, TrendingUp, Zap } from 'lucide-react';
+import { useResumeAnalysis } from '@/hooks/use-resume-analysis';
+import type { DocumentLayout } from '@/lib/layout';
+import { supportedFormatsLabel } from '@/lib/extractors';
+import { GENERAL_PROFILE, type RoleProfile } from '@/lib/scoring';
 import heroImage from '@/assets/hero-resume.jpg';
 
 const Index = () => {
   const [resumeContent, setResumeContent] = useState('');
   const [filename, setFilename] = useState<string>();
+  const [layout, setLayout] = useState<DocumentLayout>();
+  const [jobDescription, setJobDescription] = useState('');
+  const [profile, setProfile] = useState<RoleProfile>(GENERAL_PROFILE);
+  const { analysis, isAnalyzing } = useResumeAnalysis(resumeContent, jobDescription, layout, profile);
 
-  const handleResumeContent = (content: string, file?: string) => {
+  const handleResumeContent = (content: string, file?: string, pdfLayout?: DocumentLayout) => {
     setResumeContent(content);
     setFilename(file);
+    setLayout(pdfLayout);
   };
 
   const scrollToUpload = () => {
@@ -100,7 +112,7 @@ const Index = () => {
                 </div>
                 <h3 className="text-xl font-semibold mb-2">Multiple Formats</h3>
                 <p className="text-muted-foreground">
-                  Support for PDF, DOCX, and plain text uploads
+                  Support for {supportedFormatsLabel()} uploads
                 </p>
               </div>
             </div>
@@ -114,14 +126,21 @@ const Index = () => {
           <div className="max-w-6xl mx-auto">
             <div className="grid lg:grid-cols-2 gap-8">
               {/* Upload Section */}
-              <div className="order-2 lg:order-1">
+              <div className="order-2 lg:order-1 space-y-8">
+                <RoleProfileSelect profile={profile} onProfile={setProfile} />
                 <ResumeUpload onResumeContent={handleResumeContent} />
+                <JobDescriptionInput
+                  jobDescription={jobDescription}
+                  onJobDescription={setJobDescription}
+                />
+                {analysis && <AnnotatedResume analysis={analysis} />}
               </div>
 
               {/* Scoring Section */}
               <div className="order-1 lg:order-2">
-                <ResumeScoring 
-                  resumeContent={resumeContent} 
+                <ResumeScoring
+                  analysis={analysis}
+                  isAnalyzing={isAnalyzing}
                   filename={filename}
                 />
               </div>
@@ -0,0 +1,6 @@
+-- Keep the text as extracted from the file and as confirmed by the user after reviewing it,
+-- so corrected content can be told apart from the original extraction
+ALTER TABLE public.resumes
+  ADD COLUMN extracted_content TEXT,
+  ADD COLUMN reviewed_content TEXT,
+  ADD COLUMN content_edited BOOLEAN NOT NULL DEFAULT false;
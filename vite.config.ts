@@ -19,4 +19,13 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  build: {
+    rollupOptions: {
+      output: {
+        // Tesseract fetches its model as `<langPath>/eng.traineddata.gz`, so that file keeps its name
+        assetFileNames: (asset) =>
+          asset.name?.endsWith(".traineddata.gz") ? "assets/[name][extname]" : "assets/[name]-[hash][extname]",
+      },
+    },
+  },
 }));